@@ -0,0 +1,268 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// A tiny hub for the event bridge, standing in for Home Assistant and the
+// like. It prints what the assistant hears and says, and sends it commands
+// typed on stdin or POSTed to /command. See src/bridge-protocol.ts for the
+// messages. Set bridge_url to ws://localhost:8790 or http://localhost:8790.
+//
+//   speak Dinner is ready    says it once the assistant is idle
+//   prompt what time is it   answers as if it had been said
+//   activate [persona]       starts listening for a command
+//   mute, unmute
+//
+// From another program:
+//
+//   curl -d '{"type":"speak","text":"Someone is at the door."}' \
+//     http://localhost:8790/command
+//
+// Usage: node scripts/bridge-server.mjs [port] [--token TOKEN]
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { createInterface } from "node:readline";
+
+const args = process.argv.slice(2);
+const tokenIndex = args.indexOf("--token");
+const token = tokenIndex >= 0
+  ? args.splice(tokenIndex, 2)[1]
+  : process.env.BRIDGE_TOKEN ?? "";
+const port = Number(args[0] ?? process.env.PORT ?? 8790);
+
+/** Open WebSockets that said hello with the right token. */
+const sockets = new Set();
+/**
+ * Commands sent while no WebSocket is open, handed out with the next HTTP
+ * POST's response.
+ */
+let queued = [];
+let nextId = 1;
+
+function show(message) {
+  const time = new Date().toLocaleTimeString();
+  if (message.type === "event") {
+    const e = message.event;
+    let detail = "";
+    if (e.type === "statechange") detail = e.state;
+    else if (e.type === "transcript") {
+      if (!e.isFinal) return;
+      detail = JSON.stringify(e.transcript);
+    } else if (e.type === "command") {
+      detail = JSON.stringify(e.transcript) +
+        (e.intent ? ` (intent ${e.intent})` : "") +
+        (e.audio ? ` with ${Math.round(e.audio.length * 0.75 / 1024)} KB of ${e.extension}` : "");
+    } else if (e.type === "wakeword") {
+      detail = `${JSON.stringify(e.text)} ${e.accepted ? "accepted" : e.reason}`;
+    } else if (e.type === "speakstart") detail = JSON.stringify(e.text);
+    else if (e.type === "error") detail = e.message;
+    else if (e.type === "speakend" || e.type === "audiostart") return;
+    console.log(`${time} [turn ${e.turn}] ${e.type} ${detail}`);
+  } else if (message.type === "response") {
+    console.log(
+      `${time} [turn ${message.turn}] response ${JSON.stringify(message.text)}` +
+        (message.interrupted ? " (interrupted)" : "") +
+        (message.error ? ` (error: ${message.error})` : ""),
+    );
+  } else if (message.type === "ack") {
+    console.log(
+      `${time} ack ${message.id} ${message.ok ? "ok" : message.error}`,
+    );
+  } else if (message.type === "hello") {
+    console.log(`${time} hello, protocol ${message.protocol}, ${message.state}`);
+  }
+}
+
+/** Sends a command to every WebSocket, or with the next HTTP response. */
+function broadcast(command) {
+  command.id ??= String(nextId++);
+  const text = JSON.stringify(command);
+  for (const socket of sockets) socket.write(encodeFrame(text));
+  if (!sockets.size) queued.push(command);
+  console.log(`-> ${text}`);
+}
+
+function parseCommand(line) {
+  const [type, ...rest] = line.trim().split(/\s+/);
+  const text = rest.join(" ");
+  switch (type) {
+    case "speak":
+    case "prompt":
+      return text ? { type, text } : undefined;
+    case "activate":
+      return text ? { type, wakePhrase: text } : { type };
+    case "mute":
+    case "unmute":
+      return { type };
+  }
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+  if (!line.trim()) return;
+  const command = parseCommand(line);
+  if (command) broadcast(command);
+  else console.log("Commands: speak <text>, prompt <text>, activate [persona], mute, unmute");
+});
+
+// WebSocket framing (RFC 6455), just enough for JSON text messages.
+
+function encodeFrame(text, opcode = 1) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+/** Complete frames at the start of buffer, and what's left after them. */
+function decodeFrames(buffer) {
+  const frames = [];
+  while (buffer.length >= 2) {
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const masked = buffer[1] & 0x80;
+    const mask = masked ? buffer.subarray(offset, offset + 4) : undefined;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin: buffer[0] & 0x80, opcode: buffer[0] & 0x0f, payload });
+    buffer = buffer.subarray(offset + length);
+  }
+  return [frames, buffer];
+}
+
+function acceptWebSocket(req, socket) {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1")
+    .update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\n" +
+      `Connection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  console.log(`WebSocket client from ${socket.remoteAddress}.`);
+
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let greeted = false;
+  const close = () => {
+    sockets.delete(socket);
+    socket.end();
+  };
+  socket.on("data", (data) => {
+    let frames;
+    [frames, buffer] = decodeFrames(Buffer.concat([buffer, data]));
+    for (const { fin, opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.write(encodeFrame("", 0x8));
+        close();
+        return;
+      }
+      if (opcode === 0x9) socket.write(encodeFrame(payload.toString(), 0xa));
+      if (opcode !== 0x1 && opcode !== 0x0) continue;
+      fragments.push(payload);
+      if (!fin) continue;
+      let message;
+      try {
+        message = JSON.parse(Buffer.concat(fragments).toString());
+      } catch {
+        console.log("Ignoring a message that isn't JSON.");
+        continue;
+      } finally {
+        fragments = [];
+      }
+      if (!greeted) {
+        if (message.type !== "hello" || (token && message.token !== token)) {
+          console.log("Closing WebSocket: no hello with the right token.");
+          socket.write(encodeFrame("", 0x8));
+          close();
+          return;
+        }
+        greeted = true;
+        sockets.add(socket);
+      }
+      show(message);
+    }
+  });
+  socket.on("close", () => {
+    sockets.delete(socket);
+    console.log("WebSocket client left.");
+  });
+  socket.on("error", close);
+}
+
+async function readJson(req) {
+  let body = "";
+  for await (const data of req) body += data;
+  return JSON.parse(body || "null");
+}
+
+const server = createServer(async (req, res) => {
+  // The page posts from another origin.
+  res.setHeader("access-control-allow-origin", "*");
+  res.setHeader("access-control-allow-headers", "*");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== "POST") {
+    res.writeHead(404).end();
+    return;
+  }
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    res.writeHead(401).end();
+    return;
+  }
+  try {
+    const body = await readJson(req);
+    if (req.url === "/command") {
+      broadcast(body);
+      res.writeHead(202).end();
+      return;
+    }
+    for (const message of Array.isArray(body) ? body : [body]) show(message);
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify(queued));
+    queued = [];
+  } catch (err) {
+    res.writeHead(400).end(String(err));
+  }
+});
+server.on("upgrade", acceptWebSocket);
+server.listen(port, () => {
+  console.log(
+    `Bridge server on ws://localhost:${port} and http://localhost:${port}` +
+      (token ? " (token required)" : ""),
+  );
+});
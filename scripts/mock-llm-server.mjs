@@ -0,0 +1,145 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// A local OpenAI-compatible chat completions server that fails on purpose,
+// for trying out retries, timeouts and fallbacks. The model name picks what
+// happens, e.g. with base URL http://localhost:8787/v1:
+//
+//   mock/ok              streams a short answer
+//   mock/429-2           rate limited twice (Retry-After: 1), then answers
+//   mock/500-1           server error once, then answers
+//   mock/401, mock/402   bad key, out of credits
+//   mock/404             unknown model
+//   mock/no-audio        rejects audio input
+//   mock/slow-20000      first token after 20 seconds
+//   mock/stall           starts the stream, then never sends a token
+//   mock/drop            cuts the connection halfway through the answer
+//
+// Usage: node scripts/mock-llm-server.mjs [port]
+
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+/** Failures so far per model, for the "fail N times" modes. */
+const failures = new Map();
+
+function sendError(res, status, message, code, headers = {}) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify({ error: { message, code, type: "mock_error" } }));
+}
+
+/** Fails the first `times` requests for a model, then lets them through. */
+function failing(model, times) {
+  const count = failures.get(model) ?? 0;
+  if (count >= times) {
+    failures.delete(model);
+    return false;
+  }
+  failures.set(model, count + 1);
+  return true;
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function stream(res, model, { firstTokenDelay = 0, stall, drop }) {
+  res.writeHead(200, {
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache",
+  });
+  const chunk = (delta, finish_reason = null) =>
+    res.write(`data: ${
+      JSON.stringify({
+        id: "mock",
+        object: "chat.completion.chunk",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, delta, finish_reason }],
+      })
+    }\n\n`);
+  chunk({ role: "assistant", content: "" });
+  if (stall) return; // Left open until the client gives up.
+  await sleep(firstTokenDelay);
+  const words = `This is ${model} answering. Everything worked.`.split(" ");
+  for (const [i, word] of words.entries()) {
+    if (res.destroyed) return;
+    if (drop && i === 3) {
+      res.destroy();
+      return;
+    }
+    chunk({ content: (i ? " " : "") + word });
+    await sleep(50);
+  }
+  chunk({}, "stop");
+  res.end("data: [DONE]\n\n");
+}
+
+async function completion(req, res) {
+  let body = "";
+  for await (const data of req) body += data;
+  const { model = "mock/ok", messages = [] } = JSON.parse(body || "{}");
+  const mode = model.replace(/^mock\//, "");
+  const [name, arg] = mode.split("-");
+  const times = Number(arg ?? 1);
+  console.log(`${new Date().toISOString()} ${model}`);
+
+  const hasAudio = messages.some((m) =>
+    Array.isArray(m.content) &&
+    m.content.some((part) => part.type === "input_audio")
+  );
+  if (name === "no" && arg === "audio" && hasAudio) {
+    return sendError(
+      res,
+      400,
+      "This model does not support input_audio content.",
+      "invalid_request_error",
+    );
+  }
+  if (name === "429" && failing(model, times)) {
+    return sendError(res, 429, "Rate limit exceeded.", "rate_limit_exceeded", {
+      "retry-after": "1",
+    });
+  }
+  if (name === "500" && failing(model, times)) {
+    return sendError(res, 500, "Internal server error.", "server_error");
+  }
+  if (name === "401") {
+    return sendError(res, 401, "Invalid API key.", "invalid_api_key");
+  }
+  if (name === "402") {
+    return sendError(res, 402, "Insufficient credits.", "insufficient_quota");
+  }
+  if (name === "404") {
+    return sendError(res, 404, `Model ${model} not found.`, "model_not_found");
+  }
+  await stream(res, model, {
+    firstTokenDelay: name === "slow" ? times : 0,
+    stall: name === "stall",
+    drop: name === "drop",
+  });
+}
+
+createServer((req, res) => {
+  // The page calls this from another origin.
+  res.setHeader("access-control-allow-origin", "*");
+  res.setHeader("access-control-allow-headers", "*");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === "POST" && req.url?.endsWith("/chat/completions")) {
+    completion(req, res).catch((err) => {
+      console.error(err);
+      if (!res.headersSent) sendError(res, 500, String(err), "server_error");
+    });
+    return;
+  }
+  sendError(res, 404, `No route for ${req.method} ${req.url}`, "not_found");
+}).listen(port, () => {
+  console.log(`Mock LLM server on http://localhost:${port}/v1`);
+});
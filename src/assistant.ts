@@ -0,0 +1,766 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { ApiSpeechSynthesis, transcribe } from "./audio-api";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  prepareAudio,
+} from "./audio-preprocess";
+import type { AudioUploadFormat } from "./audio-preprocess";
+import { EventBridge } from "./bridge";
+import type { BridgeInbound } from "./bridge-protocol";
+import {
+  llmEndpoints,
+  resolvePersona,
+  sttEndpoint,
+  ttsEndpoint,
+  wakePhraseFor,
+} from "./config";
+import type { AssistantConfig } from "./config";
+import { ConversationSession } from "./conversation";
+import type { ConversationTurn } from "./conversation";
+import type { HistoryStore, HistoryTurn, TranscriptEntry } from "./history";
+import { builtinIntents, IntentRegistry } from "./intents";
+import type { IntentMatch } from "./intents";
+import { replyLanguageInstruction } from "./language";
+import { classifyLlmError, streamCompletion } from "./llm";
+import { SentenceChunker } from "./speech-text";
+import { TurnTelemetry } from "./telemetry";
+import { builtinTools, localIsoString, timeZone, ToolRegistry } from "./tools";
+import { VoiceAssistantState, VoiceClient } from "./web-speech";
+import type {
+  CommandEvent,
+  MicrophoneOptions,
+  SpeakOptions,
+  SpeechBackends,
+  VoiceAssistantEvent,
+} from "./web-speech";
+
+export interface VoiceAssistantOptions {
+  /** MUTED waits for toggleMute(), e.g. until the user taps the mic. */
+  initialState?: VoiceAssistantState;
+  /** Read whenever the client is built. */
+  microphone?: () => MicrophoneOptions;
+  /** Replace the browser speech APIs, e.g. with fakes in tests. */
+  backends?: () => Promise<SpeechBackends>;
+  log?: (msg: string) => void;
+  logError?: (msg: string) => void;
+}
+
+/** Settings that only take effect by rebuilding the VoiceClient. */
+const CLIENT_SETTINGS: (keyof AssistantConfig)[] = [
+  "wakePhrase",
+  "localizedWakePhrases",
+  "recognitionLang",
+  "wakeSensitivity",
+  "wakeCooldownMs",
+  "wakeNegativePhrases",
+  "bargeIn",
+  "endpointing",
+  "followUpWindowMs",
+  "personas",
+  "ttsProvider",
+];
+
+/** Settings that only take effect by reconnecting the bridge. */
+const BRIDGE_SETTINGS: (keyof AssistantConfig)[] = [
+  "bridgeUrl",
+  "bridgeToken",
+  "bridgeAudio",
+];
+
+/** Upper bound on tool-call round trips per command. */
+const MAX_TOOL_ROUNDS = 5;
+
+/** Voice, rate and language of everything the client says. */
+function speechDefaults(config: AssistantConfig): SpeakOptions {
+  return {
+    voice: config.ttsVoice || undefined,
+    rate: config.ttsRate,
+    lang: config.replyLanguage === "auto"
+      ? config.recognitionLang || undefined
+      : config.replyLanguage,
+    detectLanguage: true,
+  };
+}
+
+/**
+ * The command as the conversation keeps it: recordings are replaced by what
+ * the browser heard, so earlier audio isn't uploaded again on every turn.
+ */
+function textOnly(
+  message: ChatCompletionMessageParam,
+  transcript: string,
+): ChatCompletionMessageParam {
+  if (typeof message.content === "string") return message;
+  return { role: "user", content: transcript || "(voice message)" };
+}
+
+function conversationLimits(config: AssistantConfig) {
+  return {
+    maxTurns: config.conversationMaxTurns,
+    maxTokens: config.conversationMaxTokens,
+    idleTimeoutMs: config.conversationIdleMs,
+  };
+}
+
+export class VoiceAssistant {
+  readonly tools = new ToolRegistry(builtinTools);
+  /** Commands answered without the model, e.g. "what time is it". */
+  readonly intents = new IntentRegistry(builtinIntents({
+    mute: () => {
+      if (!this.client.isMuted) this.client.toggleMute();
+    },
+    lastReply: () => this.#lastReply,
+  }));
+  /** Where finished turns are saved, if anywhere. */
+  history: HistoryStore | undefined;
+  /** Per-turn latencies, see TurnTimings. */
+  readonly telemetry = new TurnTelemetry();
+  /** Connection to a hub, if bridge_url is set. */
+  bridge: EventBridge | undefined;
+  /**
+   * Called with an announcement that has to wait because the client is
+   * muted, e.g. to show it. It's spoken once unmuted.
+   */
+  onheldannouncement: ((text: string) => void) | undefined;
+  #conversations = new Map<string, ConversationSession>();
+  /** Signal of the turn being answered. */
+  #inFlight: AbortSignal | undefined;
+  #announcements: { text: string; onstart?: () => void }[] = [];
+  #announcing = false;
+  /** Transcripts heard since the current recording started. */
+  #transcripts: TranscriptEntry[] = [];
+  #recordingStartedAt = Date.now();
+  /** What "repeat that" says. */
+  #lastReply: string | undefined;
+  /** Set on every client the assistant drives. */
+  #matchIntent = (transcript: string) =>
+    this.config.localIntents ? this.intents.match(transcript) : undefined;
+
+  #options: VoiceAssistantOptions;
+  #log: (msg: string) => void;
+  #logError: (msg: string) => void;
+  #disposed = false;
+
+  constructor(
+    public client: VoiceClient,
+    public config: AssistantConfig,
+    options: VoiceAssistantOptions = {},
+  ) {
+    this.#options = options;
+    this.#log = options.log ?? console.log;
+    this.#logError = options.logError ?? console.error;
+    client.matchIntent = this.#matchIntent;
+  }
+
+  /** Builds the VoiceClient for the config and an assistant around it. */
+  static async create(
+    config: AssistantConfig,
+    options: VoiceAssistantOptions = {},
+  ): Promise<VoiceAssistant> {
+    const client = await VoiceAssistant.#createClient(
+      config,
+      options.initialState ?? VoiceAssistantState.LISTENING_FOR_WAKE_WORD,
+      options,
+      // Only read once the client speaks, when the assistant exists.
+      () => assistant.config,
+    );
+    const assistant = new VoiceAssistant(client, config, options);
+    assistant.#connectBridge();
+    return assistant;
+  }
+
+  /** currentConfig() is the assistant's config once the client is running. */
+  static async #createClient(
+    config: AssistantConfig,
+    initialState: VoiceAssistantState,
+    options: VoiceAssistantOptions,
+    currentConfig: () => AssistantConfig,
+  ): Promise<VoiceClient> {
+    const microphone = options.microphone?.() ?? {};
+    const backends = options.backends
+      ? await options.backends()
+      : await VoiceClient.browserBackends(microphone);
+    if (config.ttsProvider === "api") {
+      // Read per request, so new keys and models apply without a rebuild.
+      backends.synthesis = new ApiSpeechSynthesis(() =>
+        ttsEndpoint(currentConfig())
+      );
+    }
+    const client = await VoiceClient.init({
+      backends,
+      lang: config.recognitionLang || undefined,
+      wakePhraseRegex: new RegExp(wakePhraseFor(config), "i"),
+      wakePhrases: Object.fromEntries(
+        config.personas.map((p) => [p.name, new RegExp(p.wakePhrase, "i")]),
+      ),
+      wakeWord: {
+        sensitivity: config.wakeSensitivity,
+        cooldownMs: config.wakeCooldownMs,
+        negativePhrases: config.wakeNegativePhrases.map((p) =>
+          new RegExp(p, "i")
+        ),
+      },
+      bargeIn: config.bargeIn,
+      endpointing: { mode: config.endpointing },
+      followUpWindowMs: config.followUpWindowMs,
+      initialState,
+      microphone,
+      log: options.log ?? console.log,
+      logError: options.logError ?? console.error,
+    });
+    client.speechDefaults = speechDefaults(config);
+    return client;
+  }
+
+  /**
+   * Switches to new settings, rebuilding the client only for those that
+   * need it. Keeps the muted state across a rebuild.
+   */
+  async applyConfig(config: AssistantConfig) {
+    const previous = this.config;
+    this.config = config;
+    this.client.speechDefaults = speechDefaults(config);
+    for (const conversation of this.#conversations.values()) {
+      conversation.setLimits(conversationLimits(config));
+    }
+    this.history?.setLimit(config.historyLimit).catch((e) =>
+      this.#logError(`Could not apply history limit: ${e}`)
+    );
+    if (
+      BRIDGE_SETTINGS.some((key) =>
+        JSON.stringify(previous[key]) !== JSON.stringify(config[key])
+      )
+    ) {
+      this.#connectBridge();
+    }
+    const changed = CLIENT_SETTINGS.some((key) =>
+      JSON.stringify(previous[key]) !== JSON.stringify(config[key])
+    );
+    if (!changed) {
+      this.#log("Settings applied.");
+      return;
+    }
+    this.#log("Rebuilding voice client for new settings.");
+    try {
+      this.setClient(
+        await VoiceAssistant.#createClient(
+          config,
+          this.client.isMuted
+            ? VoiceAssistantState.MUTED
+            : VoiceAssistantState.LISTENING_FOR_WAKE_WORD,
+          this.#options,
+          () => this.config,
+        ),
+      );
+    } catch (err) {
+      this.#logError(`Could not rebuild voice client: ${err}`);
+    }
+  }
+
+  /** Shuts the client down for good and ends events(). */
+  dispose() {
+    this.#disposed = true;
+    this.bridge?.stop();
+    this.client.dispose();
+  }
+
+  /** (Re)connects to the hub in the config, if any. */
+  #connectBridge() {
+    this.bridge?.stop();
+    this.bridge = undefined;
+    if (!this.config.bridgeUrl) return;
+    this.bridge = new EventBridge(this.config.bridgeUrl, {
+      token: this.config.bridgeToken,
+      audio: this.config.bridgeAudio,
+      state: () => this.client.state,
+      log: this.#log,
+      logError: this.#logError,
+    });
+    this.bridge.onmessage = (message) => this.#onBridgeMessage(message);
+    this.bridge.start();
+  }
+
+  async #onBridgeMessage(message: BridgeInbound) {
+    this.#log(`Bridge: ${message.type}.`);
+    let error: string | undefined;
+    const busy = () => `not listening for the wake phrase (${this.client.state})`;
+    try {
+      switch (message.type) {
+        case "speak":
+          this.announce(message.text);
+          break;
+        case "mute":
+          if (!this.client.isMuted) this.client.toggleMute();
+          break;
+        case "unmute":
+          if (this.client.isMuted) this.client.toggleMute();
+          break;
+        case "activate":
+          if (!await this.client.activate(message.wakePhrase)) error = busy();
+          break;
+        case "prompt":
+          if (!this.client.submitText(message.text, message.wakePhrase)) {
+            error = busy();
+          }
+          break;
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+    if (error) this.#logError(`Bridge ${message.type} failed: ${error}`);
+    if (message.id !== undefined) {
+      this.bridge?.post({ type: "ack", id: message.id, ok: !error, error });
+    }
+  }
+
+  /** Each persona keeps its own history, keyed by wake phrase. */
+  conversation(wakePhrase: string): ConversationSession {
+    let conversation = this.#conversations.get(wakePhrase);
+    if (!conversation) {
+      conversation = new ConversationSession({
+        ...conversationLimits(this.config),
+        summarize: (previousSummary, turns, signal) =>
+          this.#summarize(
+            resolvePersona(this.config, wakePhrase),
+            previousSummary,
+            turns,
+            signal,
+          ),
+        log: this.#log,
+        logError: this.#logError,
+      });
+      this.#conversations.set(wakePhrase, conversation);
+    }
+    return conversation;
+  }
+
+  /** Follows the current client, so it keeps going across setClient(). */
+  async *events(): AsyncGenerator<VoiceAssistantEvent> {
+    while (!this.#disposed) {
+      const client = this.client;
+      for await (const event of client.events()) {
+        this.telemetry.observe(event);
+        this.bridge?.send(event);
+        if (event.type === "command") {
+          this.#handleCommand(event, this.#transcripts, this.#recordingStartedAt);
+          this.#transcripts = [];
+        } else if (event.type === "statechange") {
+          if (
+            event.state === VoiceAssistantState.ACTIVATING ||
+            event.state === VoiceAssistantState.AWAITING_FOLLOW_UP
+          ) {
+            this.#transcripts = [];
+            this.#recordingStartedAt = event.timestamp;
+          }
+          this.#announceQueued();
+        } else if (event.type === "transcript") {
+          this.#transcripts.push({
+            text: event.transcript,
+            isFinal: event.isFinal,
+            timestamp: event.timestamp,
+          });
+        }
+        yield event;
+      }
+    }
+  }
+
+  /** Swaps in a rebuilt client, e.g. after the wake phrase changed. */
+  setClient(client: VoiceClient) {
+    const old = this.client;
+    this.client = client;
+    client.matchIntent = this.#matchIntent;
+    // Cancels the old client's turn, so its reply stops too.
+    old.dispose();
+  }
+
+  /**
+   * Speaks text, e.g. a timer going off, once the assistant is idle: never
+   * over the user, a reply or an open follow-up window. While muted, onstart
+   * (e.g. a chime) runs straight away so the announcement isn't missed.
+   */
+  announce(text: string, onstart?: () => void) {
+    if (this.client.isMuted) {
+      this.#log(`Muted, holding announcement: ${text}`);
+      onstart?.();
+      onstart = undefined;
+      this.onheldannouncement?.(text);
+    }
+    this.#announcements.push({ text, onstart });
+    this.#announceQueued();
+  }
+
+  async #announceQueued() {
+    if (this.#announcing) return;
+    this.#announcing = true;
+    try {
+      while (
+        this.#announcements.length && !this.#inFlight &&
+        this.client.state === VoiceAssistantState.LISTENING_FOR_WAKE_WORD
+      ) {
+        const { text, onstart } = this.#announcements.shift()!;
+        this.#log(`Announcing: ${text}`);
+        onstart?.();
+        await this.client.speak(text).catch((e) =>
+          this.#logError(`Could not announce "${text}": ${e}`)
+        );
+      }
+    } finally {
+      this.#announcing = false;
+    }
+  }
+
+  /** Cuts the current reply short, e.g. from the stop button. */
+  stopSpeaking() {
+    this.client.cancelTurn();
+  }
+
+  #openai(config: AssistantConfig) {
+    if (!config.apiKey) throw new Error("LLM API key is missing.");
+    return new OpenAI({ apiKey: config.apiKey, baseURL: config.baseUrl, dangerouslyAllowBrowser: true });
+  }
+
+  async #summarize(
+    config: AssistantConfig,
+    previousSummary: string,
+    turns: ConversationTurn[],
+    signal: AbortSignal,
+  ): Promise<string> {
+    const res = await this.#openai(config).chat.completions.create({
+      model: config.model,
+      messages: [
+        {
+          role: "system",
+          content: "Summarize the conversation below in a few sentences so it can be continued later. " +
+            "Keep names, facts and open questions. Reply with the summary only." +
+            (previousSummary ? ` Earlier summary: ${previousSummary}` : ""),
+        },
+        ...turns.flatMap((t) => [t.user, t.assistant]),
+      ],
+    }, { signal });
+    return res.choices[0]?.message?.content?.trim() || previousSummary;
+  }
+
+  async #prepareAudio(
+    audio: ArrayBuffer,
+  ): Promise<{ data: string; format: AudioUploadFormat; bytes: number }> {
+    try {
+      const prepared = await prepareAudio(audio, { format: this.config.audioFormat });
+      this.#log(
+        `Audio ${(prepared.originalBytes / 1024).toFixed(0)}KB -> ` +
+          `${(prepared.bytes / 1024).toFixed(0)}KB ${prepared.format} ` +
+          `(${(prepared.durationMs / 1000).toFixed(1)}s after trimming)`,
+      );
+      return prepared;
+    } catch (error) {
+      this.#logError(`Audio preprocessing failed, sending original: ${error}`);
+      return {
+        data: bytesToBase64(new Uint8Array(audio)),
+        format: "wav",
+        bytes: audio.byteLength,
+      };
+    }
+  }
+
+  /** Answers a command matched by a local intent, without the model. */
+  async #handleIntent(
+    event: CommandEvent,
+    intent: IntentMatch,
+    transcripts: TranscriptEntry[],
+    startedAt: number,
+  ) {
+    const { signal } = event;
+    this.#inFlight = signal;
+    const config = resolvePersona(this.config, event.wakePhrase);
+    this.#log(`Handling "${intent.transcript}" locally as ${intent.intent}.`);
+    const reply = await this.intents.run(intent, this.#logError) || "";
+    if (reply) {
+      this.#lastReply = reply;
+      this.client.queueSpeech(reply, {
+        voice: config.ttsVoice || undefined,
+        rate: config.ttsRate,
+        signal,
+      });
+    }
+    const completed = !signal.aborted &&
+      await this.client.finishResponse() && !signal.aborted;
+    if (this.#inFlight === signal) this.#inFlight = undefined;
+    const audio = event.audioUrl
+      ? await fetch(event.audioUrl).then((res) => res.blob()).catch(() => null)
+      : null;
+    const turn: HistoryTurn = {
+      id: crypto.randomUUID(),
+      startedAt,
+      recordedAt: event.timestamp,
+      finishedAt: Date.now(),
+      wakePhrase: event.wakePhrase,
+      model: "",
+      baseUrl: "",
+      intent: intent.intent,
+      audio,
+      audioExtension: event.extension || "wav",
+      transcripts,
+      transcription: intent.transcript,
+      response: reply,
+      interrupted: !completed || undefined,
+    };
+    this.history?.add(turn).catch((e) =>
+      this.#logError(`Could not save turn to history: ${e}`)
+    );
+    this.#reportResponse(event, turn);
+    if (completed) {
+      if (this.client.state === VoiceAssistantState.PROCESSING_USER_SPEECH) {
+        this.client.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+      }
+      this.#announceQueued();
+    }
+  }
+
+  #reportResponse(event: CommandEvent, turn: HistoryTurn) {
+    this.bridge?.post({
+      type: "response",
+      turn: event.turn,
+      wakePhrase: event.wakePhrase,
+      transcript: turn.transcription ?? (event.transcript || undefined),
+      text: turn.response,
+      intent: turn.intent,
+      interrupted: turn.interrupted,
+      error: turn.error,
+      timestamp: turn.finishedAt,
+    });
+  }
+
+  /**
+   * The command as the model's input: the recording, or its text when
+   * transcribed by an /audio/transcriptions endpoint or taken from the
+   * browser's speech recognition, or the text of a typed prompt. Undefined
+   * if no words were heard.
+   */
+  async #userMessage(
+    config: AssistantConfig,
+    event: CommandEvent,
+    audioBuffer: ArrayBuffer | undefined,
+    turn: HistoryTurn,
+  ): Promise<ChatCompletionMessageParam | undefined> {
+    let text: string;
+    if (config.sttProvider === "browser" || !audioBuffer) {
+      text = event.transcript;
+    } else {
+      const audio = await this.#prepareAudio(audioBuffer);
+      this.telemetry.record(event.turn, { uploadBytes: audio.bytes });
+      if (config.sttProvider === "model") {
+        return {
+          role: "user",
+          content: [{
+            type: "input_audio",
+            input_audio: { data: audio.data, format: audio.format },
+          }],
+        };
+      }
+      const start = Date.now();
+      text = await transcribe(
+        sttEndpoint(config),
+        new Blob([base64ToBytes(audio.data)], {
+          type: audio.format === "mp3" ? "audio/mpeg" : "audio/wav",
+        }),
+        `command.${audio.format}`,
+        { signal: event.signal },
+      );
+      this.#log(`Transcription took ${Date.now() - start}ms.`);
+    }
+    this.#log(`Heard: ${text || "(nothing)"}`);
+    turn.transcription = text;
+    return text ? { role: "user", content: text } : undefined;
+  }
+
+  async #handleCommand(
+    event: CommandEvent,
+    transcripts: TranscriptEntry[],
+    startedAt: number,
+  ) {
+    if (event.intent) {
+      return this.#handleIntent(event, event.intent, transcripts, startedAt);
+    }
+    if (!event.audioUrl && !event.typed) return;
+    let followUp = false;
+    /** Kept in the conversation once the reply has been spoken. */
+    let remembered: { user: ChatCompletionMessageParam; reply: string } | undefined;
+    const { signal } = event;
+    this.#inFlight = signal;
+    const config = resolvePersona(this.config, event.wakePhrase);
+    const conversation = this.conversation(event.wakePhrase);
+    const speech = { voice: config.ttsVoice || undefined, rate: config.ttsRate, signal };
+    const turn: HistoryTurn = {
+      id: crypto.randomUUID(),
+      startedAt,
+      recordedAt: event.timestamp,
+      finishedAt: event.timestamp,
+      wakePhrase: event.wakePhrase,
+      model: config.model,
+      baseUrl: config.baseUrl,
+      audio: null,
+      audioExtension: event.extension || "wav",
+      transcripts,
+      response: "",
+    };
+    this.telemetry.record(event.turn, {
+      model: config.model,
+      sttProvider: config.sttProvider,
+      ttsProvider: config.ttsProvider,
+      endpointing: config.endpointing,
+      audioFormat: config.audioFormat,
+    });
+    try {
+      const audioBuffer = event.audioUrl
+        ? await fetch(event.audioUrl, { signal }).then(res => res.arrayBuffer())
+        : undefined;
+      if (audioBuffer) {
+        turn.audio = new Blob([audioBuffer], { type: `audio/${turn.audioExtension}` });
+      }
+      const userMessage = await this.#userMessage(
+        config,
+        event,
+        audioBuffer,
+        turn,
+      );
+      if (!userMessage) {
+        this.#log("Nothing was transcribed.");
+        this.client.queueSpeech("I'm sorry, I didn't get that.", speech);
+        return;
+      }
+
+      const messages = conversation.messages(
+        `Current local time: ${localIsoString(new Date())} (${timeZone()}). ${config.systemPrompt} ${
+          replyLanguageInstruction(config.replyLanguage)
+        }`,
+        userMessage,
+      );
+      const tools = this.tools.size ? this.tools.definitions() : undefined;
+
+      let full = "";
+      const chunker = new SentenceChunker();
+      // Each round streams one completion; tool calls trigger another round
+      // with their results until the model answers in plain speech.
+      let endpoints = llmEndpoints(config);
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const stream = await streamCompletion(endpoints, { messages, tools }, {
+          signal,
+          firstTokenTimeoutMs: config.firstTokenTimeoutMs,
+          totalTimeoutMs: config.totalTimeoutMs,
+          maxRetries: config.llmRetries,
+          log: this.#log,
+          logError: this.#logError,
+        });
+        // Later rounds don't go back to models that already failed.
+        endpoints = endpoints.slice(stream.index);
+        turn.model = stream.endpoint.model;
+        turn.baseUrl = stream.endpoint.baseUrl;
+        this.telemetry.record(event.turn, { model: turn.model });
+
+        let roundContent = "";
+        const toolCalls: { id: string; name: string; arguments: string }[] = [];
+        for await (const chunk of stream.chunks) {
+          const delta = chunk.choices[0]?.delta;
+          for (const call of delta?.tool_calls ?? []) {
+            const acc = toolCalls[call.index] ??= { id: "", name: "", arguments: "" };
+            if (call.id) acc.id = call.id;
+            if (call.function?.name) acc.name += call.function.name;
+            if (call.function?.arguments) acc.arguments += call.function.arguments;
+          }
+          const content = delta?.content || "";
+          if (content) {
+            turn.firstTokenMs ??= Date.now() - event.timestamp;
+            this.telemetry.mark(event.turn, "firstTokenMs");
+          }
+          full += content;
+          roundContent += content;
+          if (signal.aborted) break;
+          // Queued, so the stream keeps flowing while earlier sentences play.
+          for (const s of chunker.push(content)) {
+            this.#log(`Streaming: ${s}`);
+            this.client.queueSpeech(s, speech);
+          }
+        }
+        if (signal.aborted || toolCalls.length === 0) break;
+
+        messages.push({
+          role: "assistant",
+          content: roundContent || null,
+          tool_calls: toolCalls.map((c) => ({
+            id: c.id,
+            type: "function",
+            function: { name: c.name, arguments: c.arguments },
+          })),
+        });
+        for (const call of toolCalls) {
+          const result = await this.tools.call(call.name, call.arguments);
+          this.#log(`Tool call: ${call.name}(${call.arguments}) -> ${result}`);
+          messages.push({ role: "tool", tool_call_id: call.id, content: result });
+        }
+      }
+      turn.response = full;
+      if (full) this.#lastReply = full;
+      if (signal.aborted) {
+        this.#log("Response interrupted.");
+        turn.interrupted = true;
+        return;
+      }
+
+      for (const s of chunker.flush()) {
+        this.#log(`Final: ${s}`);
+        this.client.queueSpeech(s, speech);
+      }
+      if (!full) this.client.queueSpeech("I'm sorry, I didn't get that.", speech);
+      else {
+        remembered = { user: textOnly(userMessage, event.transcript), reply: full };
+        followUp = true;
+      }
+    } catch (error: any) {
+      if (signal.aborted) {
+        this.#log("Response interrupted.");
+        turn.interrupted = true;
+        return;
+      }
+      // The details are logged; the user hears what to do about it.
+      const llmError = classifyLlmError(error);
+      turn.error = llmError.details;
+      this.telemetry.record(event.turn, { error: llmError.kind });
+      this.#logError(`Error processing command: ${llmError.details}`);
+      this.client.queueSpeech(`I'm sorry. ${llmError.spokenMessage}`, speech);
+    } finally {
+      // After a barge-in the client already moved on to its next state.
+      const completed = !signal.aborted &&
+        await this.client.finishResponse() && !signal.aborted;
+      if (this.#inFlight === signal) this.#inFlight = undefined;
+      if (!completed) turn.interrupted = true;
+      turn.finishedAt = Date.now();
+      this.history?.add(turn).catch((e) =>
+        this.#logError(`Could not save turn to history: ${e}`)
+      );
+      this.#reportResponse(event, turn);
+      // Not awaited: summarizing old turns mustn't hold up the follow-up.
+      if (remembered) {
+        conversation.addTurn(remembered.user, remembered.reply, signal);
+      }
+      if (completed) {
+        // Only if nothing got spoken; a reply ends in LISTENING_FOR_WAKE_WORD.
+        if (this.client.state === VoiceAssistantState.PROCESSING_USER_SPEECH) {
+          this.client.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+        }
+        if (followUp) await this.client.awaitFollowUp();
+        else this.#announceQueued();
+      }
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import OpenAI from "openai";
+import { classifyLlmError, LlmError } from "./llm";
+import type { LlmEndpoint } from "./llm";
+import type {
+  SpeechSynthesisBackend,
+  UtteranceBackend,
+  VoiceInfo,
+} from "./web-speech";
+
+function client(endpoint: LlmEndpoint) {
+  if (!endpoint.apiKey) {
+    throw new LlmError("missing_key", "Audio API key is missing.", endpoint);
+  }
+  return new OpenAI({
+    apiKey: endpoint.apiKey,
+    baseURL: endpoint.baseUrl,
+    dangerouslyAllowBrowser: true,
+    maxRetries: 1,
+  });
+}
+
+/** Speech to text through an OpenAI-compatible /audio/transcriptions. */
+export async function transcribe(
+  endpoint: LlmEndpoint,
+  audio: Blob,
+  filename: string,
+  { signal, prompt }: { signal?: AbortSignal; prompt?: string } = {},
+): Promise<string> {
+  try {
+    const result = await client(endpoint).audio.transcriptions.create(
+      {
+        file: new File([audio], filename, { type: audio.type }),
+        model: endpoint.model,
+        prompt,
+      },
+      { signal },
+    );
+    return result.text.trim();
+  } catch (err) {
+    throw signal?.aborted ? err : classifyLlmError(err, endpoint);
+  }
+}
+
+/** Voices of OpenAI's /audio/speech; other providers may take other names. */
+const API_VOICES = [
+  "alloy",
+  "ash",
+  "ballad",
+  "coral",
+  "echo",
+  "fable",
+  "nova",
+  "onyx",
+  "sage",
+  "shimmer",
+  "verse",
+];
+
+/** Audio requests started ahead of playback, at most this many. */
+const MAX_PREFETCH = 4;
+
+class ApiUtterance implements UtteranceBackend {
+  text = "";
+  voice: VoiceInfo | null = null;
+  rate = 1;
+  onstart: ((event: any) => void) | null = null;
+  onend: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+}
+
+interface Pending {
+  controller: AbortController;
+  response: Promise<Response>;
+}
+
+/**
+ * Speech synthesis through an OpenAI-compatible /audio/speech endpoint,
+ * played with an audio element. MP3 is streamed through MediaSource where
+ * supported so playback starts before the whole clip arrived. Queued
+ * utterances are requested ahead of time, so sentences follow each other
+ * without a gap.
+ */
+export class ApiSpeechSynthesis implements SpeechSynthesisBackend {
+  #endpoint: () => LlmEndpoint;
+  #pending = new Map<string, Pending>();
+  #audio: HTMLAudioElement | undefined;
+  #current: { utterance: UtteranceBackend; controller: AbortController } | undefined;
+  #objectUrl: string | undefined;
+  #paused = false;
+
+  constructor(endpoint: () => LlmEndpoint) {
+    this.#endpoint = endpoint;
+  }
+
+  createUtterance(): UtteranceBackend {
+    return new ApiUtterance();
+  }
+
+  getVoices(): VoiceInfo[] {
+    return API_VOICES.map((name) => ({ name, lang: "" }));
+  }
+
+  prefetch(
+    text: string,
+    voice: VoiceInfo | null,
+    rate: number,
+    signal?: AbortSignal,
+  ) {
+    const key = this.#key(text, voice, rate);
+    if (this.#pending.has(key)) return;
+    const controller = new AbortController();
+    signal?.addEventListener("abort", () => {
+      controller.abort();
+      this.#pending.delete(key);
+    }, { once: true });
+    const response = this.#request(text, voice, rate, controller.signal);
+    // Failures are reported when the utterance is spoken.
+    response.catch(() => {});
+    this.#pending.set(key, { controller, response });
+    while (this.#pending.size > MAX_PREFETCH) {
+      const [oldest, { controller }] = this.#pending.entries().next().value!;
+      controller.abort();
+      this.#pending.delete(oldest);
+    }
+  }
+
+  speak(utterance: UtteranceBackend) {
+    const key = this.#key(utterance.text, utterance.voice, utterance.rate);
+    let pending = this.#pending.get(key);
+    this.#pending.delete(key);
+    if (!pending) {
+      const controller = new AbortController();
+      pending = {
+        controller,
+        response: this.#request(
+          utterance.text,
+          utterance.voice,
+          utterance.rate,
+          controller.signal,
+        ),
+      };
+    }
+    this.#stop();
+    this.#current = { utterance, controller: pending.controller };
+    this.#play(utterance, pending).catch((err) => {
+      if (this.#current?.utterance !== utterance) return;
+      this.#current = undefined;
+      utterance.onerror?.({ error: err?.message ?? String(err) });
+    });
+  }
+
+  /** Like speechSynthesis.cancel(): the utterance ends as "interrupted". */
+  cancel() {
+    const current = this.#current;
+    this.#stop();
+    current?.utterance.onerror?.({ error: "interrupted" });
+  }
+
+  pause() {
+    this.#paused = true;
+    this.#audio?.pause();
+  }
+
+  resume() {
+    this.#paused = false;
+    this.#audio?.play().catch(() => {});
+  }
+
+  #key(text: string, voice: VoiceInfo | null, rate: number) {
+    return `${voice?.name ?? ""}|${rate}|${text}`;
+  }
+
+  async #request(
+    text: string,
+    voice: VoiceInfo | null,
+    rate: number,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    const endpoint = this.#endpoint();
+    try {
+      return await client(endpoint).audio.speech.create({
+        model: endpoint.model,
+        voice: voice?.name ?? API_VOICES[0],
+        input: text,
+        response_format: "mp3",
+        speed: Math.min(4, Math.max(0.25, rate)),
+      }, { signal });
+    } catch (err) {
+      throw signal.aborted ? err : classifyLlmError(err, endpoint);
+    }
+  }
+
+  async #play(utterance: UtteranceBackend, pending: Pending) {
+    const response = await pending.response;
+    if (this.#current?.utterance !== utterance) return;
+    const audio = new Audio();
+    this.#audio = audio;
+    const streamed = response.body && typeof MediaSource !== "undefined" &&
+      MediaSource.isTypeSupported("audio/mpeg");
+    audio.onplaying = () => {
+      audio.onplaying = null;
+      utterance.onstart?.({});
+    };
+    const played = new Promise<void>((resolve, reject) => {
+      audio.onended = () => resolve();
+      audio.onerror = () =>
+        reject(new Error(audio.error?.message || "audio playback failed"));
+      if (streamed) {
+        const source = new MediaSource();
+        source.addEventListener(
+          "sourceopen",
+          () => appendStream(source, response.body!).catch(reject),
+          { once: true },
+        );
+        this.#objectUrl = URL.createObjectURL(source);
+      }
+    });
+    if (!streamed) {
+      const blob = await response.blob();
+      if (this.#current?.utterance !== utterance) return;
+      this.#objectUrl = URL.createObjectURL(blob);
+    }
+    audio.src = this.#objectUrl!;
+    if (!this.#paused) await audio.play();
+    await played;
+    if (this.#current?.utterance !== utterance) return;
+    this.#stop();
+    utterance.onend?.({});
+  }
+
+  #stop() {
+    this.#current?.controller.abort();
+    this.#current = undefined;
+    if (this.#audio) {
+      this.#audio.onplaying = null;
+      this.#audio.onended = null;
+      this.#audio.onerror = null;
+      this.#audio.pause();
+      this.#audio = undefined;
+    }
+    if (this.#objectUrl) URL.revokeObjectURL(this.#objectUrl);
+    this.#objectUrl = undefined;
+  }
+}
+
+async function appendStream(
+  source: MediaSource,
+  body: ReadableStream<Uint8Array>,
+) {
+  const buffer = source.addSourceBuffer("audio/mpeg");
+  const reader = body.getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    if (source.readyState !== "open") {
+      reader.cancel();
+      return;
+    }
+    await new Promise((resolve) => {
+      buffer.addEventListener("updateend", resolve, { once: true });
+      buffer.appendBuffer(value as BufferSource);
+    });
+  }
+  if (source.readyState === "open") source.endOfStream();
+}
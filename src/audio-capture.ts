@@ -0,0 +1,435 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { encodeWav } from "./wav";
+import type {
+  MicrophoneOptions,
+  MicState,
+  Recorder,
+  RecorderBackend,
+  RecorderStartOptions,
+  RecordingResult,
+} from "./web-speech";
+
+// Batches render quanta (128 samples) so we post ~20 messages a second.
+const WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  #buffer = new Float32Array(2048);
+  #length = 0;
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    for (let i = 0; i < channels[0].length; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel[i];
+      this.#buffer[this.#length++] = sum / channels.length;
+      if (this.#length === this.#buffer.length) {
+        this.port.postMessage(this.#buffer, [this.#buffer.buffer]);
+        this.#buffer = new Float32Array(2048);
+        this.#length = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor("capture-processor", CaptureProcessor);
+`;
+
+/** Fixed-size buffer holding the most recent samples. */
+export class RingBuffer {
+  #data: Float32Array;
+  #write = 0;
+  #filled = 0;
+
+  constructor(capacity: number) {
+    this.#data = new Float32Array(capacity);
+  }
+
+  push(samples: Float32Array) {
+    for (let i = 0; i < samples.length; i++) {
+      this.#data[this.#write] = samples[i];
+      this.#write = (this.#write + 1) % this.#data.length;
+    }
+    this.#filled = Math.min(this.#data.length, this.#filled + samples.length);
+  }
+
+  /** Copies the last `count` samples (fewer if not filled yet), oldest first. */
+  latest(count: number): Float32Array {
+    const n = Math.min(count, this.#filled);
+    const out = new Float32Array(n);
+    const start = (this.#write - n + this.#data.length) % this.#data.length;
+    for (let i = 0; i < n; i++) {
+      out[i] = this.#data[(start + i) % this.#data.length];
+    }
+    return out;
+  }
+}
+
+/**
+ * Best-effort removal of the wake phrase from the start of pre-roll audio.
+ * Finds where the current burst of speech began (the last onset after at
+ * least 500ms of quiet) and cuts at the first pause of 200ms+ after it,
+ * which is usually the breath between "OK Google" and the command. Returns
+ * the offset to cut at, or 0 if there's no such pause.
+ */
+export function findWakePhraseEnd(
+  samples: Float32Array,
+  sampleRate: number,
+): number {
+  const frame = Math.round(sampleRate / 100);
+  const energies: number[] = [];
+  for (let i = 0; i + frame <= samples.length; i += frame) {
+    let sum = 0;
+    for (let j = i; j < i + frame; j++) sum += samples[j] * samples[j];
+    energies.push(sum / frame);
+  }
+  if (energies.length === 0) return 0;
+
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noise = sorted[Math.floor(sorted.length * 0.1)];
+  // ~+8dB over the quietest frames, with an absolute floor around -60dBFS.
+  const threshold = Math.max(noise * 6, 1e-6);
+  const isSpeech = energies.map((e) => e > threshold);
+
+  const onsetQuietFrames = 50, pauseFrames = 20;
+  let onset = -1, quiet = onsetQuietFrames;
+  for (let i = 0; i < isSpeech.length; i++) {
+    if (isSpeech[i]) {
+      if (quiet >= onsetQuietFrames) onset = i;
+      quiet = 0;
+    } else {
+      quiet++;
+    }
+  }
+  if (onset < 0) return 0;
+
+  let run = 0;
+  for (let i = onset; i < isSpeech.length; i++) {
+    if (isSpeech[i]) {
+      run = 0;
+      continue;
+    }
+    if (++run === pauseFrames) {
+      return (i - Math.floor(pauseFrames / 2)) * frame;
+    }
+  }
+  return 0;
+}
+
+export class CaptureSegment implements Recorder {
+  #chunks: Float32Array[];
+  #recorder: AudioRecorder;
+
+  constructor(recorder: AudioRecorder, preRoll: Float32Array) {
+    this.#recorder = recorder;
+    this.#chunks = preRoll.length ? [preRoll] : [];
+  }
+
+  get stream(): MediaStream | undefined {
+    return this.#recorder.stream;
+  }
+
+  append(samples: Float32Array) {
+    this.#chunks.push(samples);
+  }
+
+  stop(logError: (msg: string) => void): Promise<RecordingResult | null> {
+    this.#recorder.release(this);
+    const length = this.#chunks.reduce((n, c) => n + c.length, 0);
+    if (length === 0) {
+      logError("No audio captured. Cannot create audio blob.");
+      return Promise.resolve(null);
+    }
+    const samples = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of this.#chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    const blob = encodeWav(samples, this.#recorder.sampleRate);
+    return Promise.resolve({
+      audioUrl: URL.createObjectURL(blob),
+      extension: "wav",
+    });
+  }
+}
+
+const RECOVERY_DELAYS_MS = [250, 1000, 3000];
+/** How long opening waits for a suspended AudioContext to resume. */
+const RESUME_WAIT_MS = 1000;
+
+/**
+ * Long-lived microphone capture. Opens the device once (until close() on
+ * mute), buffers the last few seconds of PCM so a command said in one breath
+ * with the wake phrase isn't clipped, and hands out per-utterance segments.
+ * If the track ends or the device disappears (e.g. a headset is unplugged)
+ * it reconnects to the current default input; segments in progress keep
+ * recording across the switch.
+ */
+export class AudioRecorder implements RecorderBackend {
+  stream: MediaStream | undefined;
+  sampleRate = 48000;
+  state: MicState = "closed";
+  onstatechange: ((state: MicState) => void) | null = null;
+  onerror: ((message: string, error?: Error) => void) | null = null;
+
+  #context: AudioContext | undefined;
+  #source: MediaStreamAudioSourceNode | undefined;
+  #node: AudioWorkletNode | undefined;
+  #ring: RingBuffer | undefined;
+  #segments = new Set<CaptureSegment>();
+  #analyser: AnalyserNode | undefined;
+  #maxPreRollMs: number;
+  #microphone: MicrophoneOptions;
+  #opening: Promise<void> | undefined;
+  #log: (msg: string) => void = console.log;
+  #onDeviceChange = () => this.#checkDevice();
+
+  constructor(
+    { maxPreRollMs = 3000, microphone = {} }: {
+      maxPreRollMs?: number;
+      microphone?: MicrophoneOptions;
+    } = {},
+  ) {
+    this.#maxPreRollMs = maxPreRollMs;
+    this.#microphone = microphone;
+  }
+
+  /** Live input for level meters; stays valid across device switches. */
+  get analyser(): AnalyserNode | undefined {
+    return this.#analyser;
+  }
+
+  get microphone(): MicrophoneOptions {
+    return { ...this.#microphone };
+  }
+
+  /**
+   * Applies new device/constraint options. A new device or processing
+   * setting just swaps the stream, keeping segments in progress; a new
+   * sample rate needs a new AudioContext, so capture is reopened.
+   */
+  async configure(microphone: MicrophoneOptions): Promise<void> {
+    const rateChanged = microphone.sampleRate !== this.#microphone.sampleRate;
+    this.#microphone = microphone;
+    if (this.state !== "open") return;
+    if (rateChanged) {
+      this.close();
+      await this.open(this.#log, (msg) => this.#error(msg));
+      return;
+    }
+    this.#disconnectStream();
+    try {
+      await this.#connectStream();
+      this.#log("Microphone settings applied.");
+    } catch (err) {
+      this.#error(`Could not apply microphone settings: ${err}`);
+      this.#recover("settings could not be applied");
+    }
+  }
+
+  #constraints(): MediaTrackConstraints {
+    const { deviceId, ...processing } = this.#microphone;
+    const constraints: MediaTrackConstraints = {};
+    // "ideal" so we fall back to the default input if the device is gone.
+    if (deviceId) constraints.deviceId = { ideal: deviceId };
+    for (const [key, value] of Object.entries(processing)) {
+      if (value !== undefined) (constraints as any)[key] = value;
+    }
+    return constraints;
+  }
+
+  open(log: (msg: string) => void, logError: (msg: string) => void) {
+    this.#log = log;
+    this.#opening ??= this.#open(logError).catch((err) => {
+      this.#opening = undefined;
+      throw err;
+    });
+    return this.#opening;
+  }
+
+  async #open(logError: (msg: string) => void) {
+    this.#setState("opening");
+    try {
+      this.#context = new AudioContext(
+        this.#microphone.sampleRate
+          ? { sampleRate: this.#microphone.sampleRate }
+          : undefined,
+      );
+      this.sampleRate = this.#context.sampleRate;
+      this.#analyser = this.#context.createAnalyser();
+      this.#analyser.fftSize = 2048;
+      const url = URL.createObjectURL(
+        new Blob([WORKLET_SOURCE], { type: "application/javascript" }),
+      );
+      await this.#context.audioWorklet.addModule(url);
+      URL.revokeObjectURL(url);
+
+      this.#ring = new RingBuffer(
+        Math.ceil((this.sampleRate * this.#maxPreRollMs) / 1000),
+      );
+      this.#node = new AudioWorkletNode(this.#context, "capture-processor");
+      this.#node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+        this.#ring?.push(e.data);
+        for (const segment of this.#segments) segment.append(e.data);
+      };
+      await this.#connectStream();
+      await this.#resume(logError);
+      navigator.mediaDevices.addEventListener(
+        "devicechange",
+        this.#onDeviceChange,
+      );
+      this.#log(`Capturing audio at ${this.sampleRate}Hz.`);
+      this.#setState("open");
+    } catch (err) {
+      logError(`Could not open microphone: ${err}`);
+      this.close();
+      throw new Error("Could not get user media: " + err);
+    }
+  }
+
+  /**
+   * Autoplay rules can start the context suspended, which captures nothing.
+   * resume() may not settle until the page gets a user gesture, so opening
+   * doesn't wait for it long.
+   */
+  async #resume(logError: (msg: string) => void) {
+    const context = this.#context!;
+    if (context.state !== "suspended") return;
+    const resumed = context.resume().then(() => true, () => false);
+    const waited = await Promise.race([
+      resumed,
+      new Promise((resolve) => setTimeout(resolve, RESUME_WAIT_MS)),
+    ]);
+    if (waited || context.state !== "suspended") return;
+    logError(
+      "Audio capture is suspended by the browser until the page is clicked.",
+    );
+    resumed.then((ok) => {
+      if (ok && this.#context === context) this.#log("Audio capture resumed.");
+    });
+  }
+
+  async #connectStream() {
+    const constraints = this.#constraints();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: Object.keys(constraints).length ? constraints : true,
+    });
+    // close() may have run while we waited for permission.
+    if (!this.#context || !this.#node) {
+      stream.getTracks().forEach((track) => track.stop());
+      throw new Error("Microphone was closed while opening.");
+    }
+    this.stream = stream;
+    this.#source = this.#context.createMediaStreamSource(stream);
+    this.#source.connect(this.#node);
+    if (this.#analyser) this.#source.connect(this.#analyser);
+    for (const track of stream.getAudioTracks()) {
+      track.onended = () => this.#recover(`track "${track.label}" ended`);
+    }
+  }
+
+  #disconnectStream() {
+    this.#source?.disconnect();
+    this.#source = undefined;
+    for (const track of this.stream?.getTracks() ?? []) {
+      track.onended = null;
+      track.stop();
+    }
+    this.stream = undefined;
+  }
+
+  async #checkDevice() {
+    if (this.state !== "open") return;
+    const track = this.stream?.getAudioTracks()[0];
+    const deviceId = track?.getSettings().deviceId;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const present = devices.some((d) =>
+      d.kind === "audioinput" && (!deviceId || d.deviceId === deviceId)
+    );
+    if (!track || track.readyState === "ended" || !present) {
+      this.#recover("input device was removed");
+    }
+  }
+
+  async #recover(reason: string) {
+    if (this.state !== "open") return;
+    this.#setState("recovering");
+    this.#error(`Microphone lost (${reason}), reconnecting.`);
+    this.#disconnectStream();
+
+    for (const delay of RECOVERY_DELAYS_MS) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      if ((this.state as MicState) !== "recovering") return; // closed meanwhile
+      try {
+        await this.#connectStream();
+        const label = this.stream?.getAudioTracks()[0]?.label;
+        this.#log(`Microphone recovered${label ? ` using "${label}"` : ""}.`);
+        this.#setState("open");
+        return;
+      } catch (err) {
+        this.#log(`Microphone reconnect failed: ${err}`);
+      }
+    }
+    this.#error("Could not reconnect to a microphone.");
+    this.close();
+  }
+
+  #error(message: string, error?: Error) {
+    this.onerror?.(message, error ?? new Error(message));
+  }
+
+  #setState(state: MicState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.onstatechange?.(state);
+  }
+
+  close() {
+    navigator.mediaDevices?.removeEventListener(
+      "devicechange",
+      this.#onDeviceChange,
+    );
+    this.#disconnectStream();
+    this.#node?.disconnect();
+    this.#context?.close();
+    this.#node = undefined;
+    this.#analyser = undefined;
+    this.#context = undefined;
+    this.#ring = undefined;
+    this.#opening = undefined;
+    this.#segments.clear();
+    this.#setState("closed");
+  }
+
+  async start(
+    log: (msg: string) => void,
+    logError: (msg: string) => void,
+    { preRollMs = 0, trimWakePhrase = false }: RecorderStartOptions = {},
+  ): Promise<Recorder> {
+    await this.open(log, logError);
+    let preRoll = this.#ring!.latest(
+      Math.round((this.sampleRate * preRollMs) / 1000),
+    );
+    if (trimWakePhrase) {
+      const cut = findWakePhraseEnd(preRoll, this.sampleRate);
+      if (cut > 0) {
+        log(`Trimmed ${Math.round((cut / this.sampleRate) * 1000)}ms of wake phrase.`);
+        preRoll = preRoll.subarray(cut);
+      }
+    }
+    const segment = new CaptureSegment(this, preRoll);
+    this.#segments.add(segment);
+    return segment;
+  }
+
+  release(segment: CaptureSegment) {
+    this.#segments.delete(segment);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { encodeWav } from "./wav";
+
+export type AudioUploadFormat = "wav" | "mp3";
+
+export interface AudioPreprocessOptions {
+  /** Speech models don't need more than 16kHz. */
+  sampleRate?: number;
+  trimSilence?: boolean;
+  /** Frames below this level (dBFS) count as silence when trimming. */
+  silenceThresholdDb?: number;
+  /** Silence kept around the speech after trimming. */
+  paddingMs?: number;
+  /** "mp3" is ~4x smaller; only use it if the model accepts mp3 input. */
+  format?: AudioUploadFormat;
+  mp3Kbps?: number;
+}
+
+export interface PreparedAudio {
+  /** Base64-encoded audio, ready for an input_audio content part. */
+  data: string;
+  format: AudioUploadFormat;
+  bytes: number;
+  originalBytes: number;
+  durationMs: number;
+}
+
+/**
+ * Base64 in 32KB slices: String.fromCharCode.apply is far faster than
+ * appending one character per byte, and slicing stays under engines'
+ * argument count limits.
+ */
+export function bytesToBase64(data: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < data.length; i += 0x8000) {
+    parts.push(
+      String.fromCharCode.apply(
+        null,
+        data.subarray(i, i + 0x8000) as unknown as number[],
+      ),
+    );
+  }
+  return btoa(parts.join(""));
+}
+
+export function base64ToBytes(data: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+}
+
+/** Returns [start, end) of the non-silent part, padded, in samples. */
+export function findSpeechBounds(
+  samples: Float32Array,
+  sampleRate: number,
+  silenceThresholdDb: number,
+  paddingMs: number,
+): [number, number] {
+  const frame = Math.round(sampleRate / 100);
+  const threshold = 10 ** (silenceThresholdDb / 20);
+  let first = -1, last = -1;
+  for (let i = 0; i < samples.length; i += frame) {
+    const end = Math.min(i + frame, samples.length);
+    let sum = 0;
+    for (let j = i; j < end; j++) sum += samples[j] * samples[j];
+    if (Math.sqrt(sum / (end - i)) > threshold) {
+      if (first < 0) first = i;
+      last = end;
+    }
+  }
+  // All silence: keep everything and let the model say it heard nothing.
+  if (first < 0) return [0, samples.length];
+  const padding = Math.round((sampleRate * paddingMs) / 1000);
+  return [Math.max(0, first - padding), Math.min(samples.length, last + padding)];
+}
+
+async function encodeMp3(
+  samples: Float32Array,
+  sampleRate: number,
+  kbps: number,
+): Promise<Uint8Array> {
+  const { Mp3Encoder } = await import("@breezystack/lamejs");
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = v < 0 ? v * 0x8000 : v * 0x7fff;
+  }
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < pcm.length; i += 1152) {
+    chunks.push(encoder.encodeBuffer(pcm.subarray(i, i + 1152)));
+  }
+  chunks.push(encoder.flush());
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Shrinks a recording before upload: decodes it, downmixes to mono,
+ * resamples, trims leading/trailing silence and re-encodes.
+ */
+export async function prepareAudio(
+  audio: ArrayBuffer,
+  {
+    sampleRate = 16000,
+    trimSilence = true,
+    silenceThresholdDb = -45,
+    paddingMs = 250,
+    format = "wav",
+    mp3Kbps = 32,
+  }: AudioPreprocessOptions = {},
+): Promise<PreparedAudio> {
+  const originalBytes = audio.byteLength;
+  // decodeAudioData resamples to the context's rate for us.
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate)
+    .decodeAudioData(audio);
+
+  let samples = new Float32Array(decoded.length);
+  for (let c = 0; c < decoded.numberOfChannels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) {
+      samples[i] += channel[i] / decoded.numberOfChannels;
+    }
+  }
+
+  if (trimSilence) {
+    const [start, end] = findSpeechBounds(
+      samples,
+      sampleRate,
+      silenceThresholdDb,
+      paddingMs,
+    );
+    samples = samples.subarray(start, end);
+  }
+
+  const bytes = format === "mp3"
+    ? await encodeMp3(samples, sampleRate, mp3Kbps)
+    : new Uint8Array(await encodeWav(samples, sampleRate).arrayBuffer());
+
+  return {
+    data: bytesToBase64(bytes),
+    format,
+    bytes: bytes.length,
+    originalBytes,
+    durationMs: Math.round((samples.length / sampleRate) * 1000),
+  };
+}
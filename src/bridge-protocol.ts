@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// The JSON messages the event bridge exchanges with a home-automation hub,
+// see bridge.ts and scripts/bridge-server.mjs.
+//
+// Over WebSocket, each message is one text frame. The page sends "hello"
+// right after connecting and then its events as they happen; the hub sends
+// commands whenever it likes.
+//
+// Over HTTP, the page POSTs batches of messages as a JSON array, with the
+// token as "Authorization: Bearer <token>". The hub can't reach the page, so
+// it answers each POST with a JSON array of commands, empty if it has none.
+// The page sends a "ping" when it has been quiet for a few seconds so
+// commands don't wait for the next event.
+
+import type {
+  AudioStartEvent,
+  ErrorEvent,
+  InterruptedEvent,
+  MicStateEvent,
+  ResponseEndEvent,
+  SpeakEndEvent,
+  SpeakStartEvent,
+  StateChangeEvent,
+  TranscriptEvent,
+  VoiceAssistantEvent,
+  WakeWordEvent,
+} from "./web-speech";
+
+/** Bumped on incompatible changes; sent in "hello". */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+// Page to hub.
+
+export interface BridgeHello {
+  type: "hello";
+  protocol: typeof BRIDGE_PROTOCOL_VERSION;
+  /** bridge_token, for the hub to check; WebSocket only. */
+  token?: string;
+  state: StateChangeEvent["state"];
+}
+
+/** A CommandEvent, with the recording inlined if bridge_audio is on. */
+export interface BridgeCommandEvent {
+  type: "command";
+  wakePhrase: string;
+  /** What browser speech recognition heard, or the prompt's text. */
+  transcript: string;
+  /** Name of the local intent that will answer it, if any. */
+  intent?: string;
+  /** Sent as a "prompt" rather than spoken. */
+  typed?: boolean;
+  /** Base64, when bridge_audio is on and something was recorded. */
+  audio?: string;
+  /** E.g. "wav"; set with audio. */
+  extension?: string;
+  timestamp: number;
+  turn: number;
+}
+
+/** An ErrorEvent, with the Error reduced to its message. */
+export interface BridgeErrorEvent extends Omit<ErrorEvent, "error"> {
+  /** The cause's message, if it had one. */
+  detail?: string;
+}
+
+/** Every VoiceAssistantEvent, as it goes over the wire. */
+export type BridgeEvent =
+  | StateChangeEvent
+  | TranscriptEvent
+  | WakeWordEvent
+  | BridgeCommandEvent
+  | SpeakStartEvent
+  | AudioStartEvent
+  | SpeakEndEvent
+  | ResponseEndEvent
+  | InterruptedEvent
+  | MicStateEvent
+  | BridgeErrorEvent;
+
+export interface BridgeEventMessage {
+  type: "event";
+  event: BridgeEvent;
+}
+
+/** The whole answer to a command, once it's done. */
+export interface BridgeResponse {
+  type: "response";
+  turn: number;
+  wakePhrase: string;
+  /** What the user said, if known. */
+  transcript?: string;
+  text: string;
+  /** Set when answered by a local intent instead of the model. */
+  intent?: string;
+  interrupted?: boolean;
+  error?: string;
+  timestamp: number;
+}
+
+/** Whether a command with an id worked. */
+export interface BridgeAck {
+  type: "ack";
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface BridgePing {
+  type: "ping";
+}
+
+export type BridgeOutbound =
+  | BridgeHello
+  | BridgeEventMessage
+  | BridgeResponse
+  | BridgeAck
+  | BridgePing;
+
+// Hub to page. Commands with an id get an ack.
+
+/** Says something once the assistant is idle, like a timer announcement. */
+export interface BridgeSpeak {
+  type: "speak";
+  id?: string;
+  text: string;
+}
+
+export interface BridgeMute {
+  type: "mute" | "unmute";
+  id?: string;
+}
+
+/** Starts recording a command as if the wake phrase was heard. */
+export interface BridgeActivate {
+  type: "activate";
+  id?: string;
+  /** Persona name; the default assistant if left out. */
+  wakePhrase?: string;
+}
+
+/** Answers text as if it had been said after the wake phrase. */
+export interface BridgePrompt {
+  type: "prompt";
+  id?: string;
+  text: string;
+  /** Persona name; the default assistant if left out. */
+  wakePhrase?: string;
+}
+
+export type BridgeInbound =
+  | BridgeSpeak
+  | BridgeMute
+  | BridgeActivate
+  | BridgePrompt;
+
+/** The event without what only makes sense inside the page. */
+export function toBridgeEvent(
+  event: VoiceAssistantEvent,
+): BridgeEvent {
+  if (event.type === "command") {
+    return {
+      type: "command",
+      wakePhrase: event.wakePhrase,
+      transcript: event.transcript,
+      intent: event.intent?.intent,
+      typed: event.typed,
+      timestamp: event.timestamp,
+      turn: event.turn,
+    };
+  }
+  if (event.type === "error") {
+    const { error, ...rest } = event;
+    const cause = error instanceof Error ? error.message : undefined;
+    return cause && cause !== event.message ? { ...rest, detail: cause } : rest;
+  }
+  return event;
+}
+
+/** Checks an inbound message's shape; returns a problem or undefined. */
+export function validateInbound(message: unknown): string | undefined {
+  if (typeof message !== "object" || message === null) {
+    return "must be an object";
+  }
+  const m = message as Record<string, unknown>;
+  if (m.id !== undefined && typeof m.id !== "string") return "id must be a string";
+  switch (m.type) {
+    case "speak":
+    case "prompt":
+      if (typeof m.text !== "string" || !m.text.trim()) {
+        return "text must not be empty";
+      }
+      break;
+    case "mute":
+    case "unmute":
+    case "activate":
+      break;
+    default:
+      return `unknown type ${JSON.stringify(m.type)}`;
+  }
+  if (m.wakePhrase !== undefined && typeof m.wakePhrase !== "string") {
+    return "wakePhrase must be a string";
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { bytesToBase64 } from "./audio-preprocess";
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  toBridgeEvent,
+  validateInbound,
+} from "./bridge-protocol";
+import type { BridgeInbound, BridgeOutbound } from "./bridge-protocol";
+import type { VoiceAssistantEvent, VoiceAssistantState } from "./web-speech";
+
+export interface EventBridgeOptions {
+  /** Sent in "hello" over WebSocket, as a bearer token over HTTP. */
+  token?: string;
+  /** Inline command recordings as base64. */
+  audio?: boolean;
+  /** Reported in "hello" on every (re)connect. */
+  state: () => VoiceAssistantState;
+  log?: (msg: string) => void;
+  logError?: (msg: string) => void;
+}
+
+/** Messages kept while the hub is unreachable; older ones are dropped. */
+const MAX_PENDING = 100;
+/** Over HTTP, a ping collects commands after this long without events. */
+const PING_INTERVAL_MS = 3000;
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+/**
+ * Streams the assistant's events to a hub at a ws(s):// or http(s):// URL
+ * and passes the hub's commands to onmessage; see bridge-protocol.ts for
+ * the messages. Reconnects with backoff while the hub is down.
+ */
+export class EventBridge {
+  readonly url: string;
+  /** Called with each valid command from the hub. */
+  onmessage: ((message: BridgeInbound) => void) | undefined;
+  #options: EventBridgeOptions;
+  #http: boolean;
+  #socket: WebSocket | undefined;
+  #connected = false;
+  #pending: BridgeOutbound[] = [];
+  /** Keeps events in order while a recording is read. */
+  #queue = Promise.resolve();
+  #posting = false;
+  #timer: any | undefined;
+  #retryMs = MIN_RETRY_MS;
+  #stopped = true;
+  #log: (msg: string) => void;
+  #logError: (msg: string) => void;
+
+  constructor(url: string, options: EventBridgeOptions) {
+    this.url = url;
+    this.#options = options;
+    this.#http = /^https?:/i.test(url);
+    this.#log = options.log ?? console.log;
+    this.#logError = options.logError ?? console.error;
+  }
+
+  start() {
+    if (!this.#stopped) return;
+    this.#stopped = false;
+    if (this.#http) {
+      this.post(this.#hello());
+    } else {
+      this.#connect();
+    }
+  }
+
+  stop() {
+    this.#stopped = true;
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    this.#pending = [];
+    const socket = this.#socket;
+    this.#socket = undefined;
+    socket?.close();
+  }
+
+  /** Forwards an event, with its recording if audio is on. */
+  send(event: VoiceAssistantEvent) {
+    this.#queue = this.#queue.then(async () => {
+      const message = toBridgeEvent(event);
+      if (
+        event.type === "command" && message.type === "command" &&
+        this.#options.audio && event.audioUrl
+      ) {
+        try {
+          const audio = await fetch(event.audioUrl).then((res) =>
+            res.arrayBuffer()
+          );
+          message.audio = bytesToBase64(new Uint8Array(audio));
+          message.extension = event.extension;
+        } catch (err) {
+          this.#logError(`Bridge could not read the recording: ${err}`);
+        }
+      }
+      this.post({ type: "event", event: message });
+    });
+  }
+
+  /** Sends a message as is, e.g. a response or an ack. */
+  post(message: BridgeOutbound) {
+    if (this.#stopped) return;
+    this.#pending.push(message);
+    if (this.#pending.length > MAX_PENDING) {
+      this.#pending.splice(0, this.#pending.length - MAX_PENDING);
+    }
+    this.#flush();
+  }
+
+  #hello(): BridgeOutbound {
+    return {
+      type: "hello",
+      protocol: BRIDGE_PROTOCOL_VERSION,
+      token: this.#http ? undefined : this.#options.token || undefined,
+      state: this.#options.state(),
+    };
+  }
+
+  #flush() {
+    if (this.#http) {
+      this.#postAll();
+      return;
+    }
+    const socket = this.#socket;
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    for (const message of this.#pending.splice(0)) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  #connect() {
+    if (this.#stopped) return;
+    const socket = new WebSocket(this.url);
+    this.#socket = socket;
+    socket.onopen = () => {
+      this.#connected = true;
+      this.#retryMs = MIN_RETRY_MS;
+      this.#log(`Bridge connected to ${this.url}.`);
+      socket.send(JSON.stringify(this.#hello()));
+      this.#flush();
+    };
+    socket.onmessage = (event) => {
+      try {
+        this.#receive(JSON.parse(String(event.data)));
+      } catch {
+        this.#logError("Bridge ignored a message that isn't JSON.");
+      }
+    };
+    socket.onclose = () => {
+      if (this.#socket !== socket) return;
+      this.#socket = undefined;
+      if (this.#connected) {
+        this.#connected = false;
+        this.#logError(`Bridge lost ${this.url}; reconnecting.`);
+      }
+      this.#retry(() => this.#connect());
+    };
+  }
+
+  async #postAll() {
+    if (this.#posting || this.#stopped || !this.#pending.length) return;
+    // Down: wait for the retry rather than trying on every event.
+    if (!this.#connected && this.#timer !== undefined) return;
+    this.#posting = true;
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    const batch = this.#pending.splice(0);
+    let text: string;
+    try {
+      const res = await fetch(this.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(this.#options.token
+            ? { authorization: `Bearer ${this.#options.token}` }
+            : {}),
+        },
+        body: JSON.stringify(batch),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      text = await res.text();
+    } catch (err) {
+      // Pings are only for collecting commands; everything else is resent.
+      const unsent = batch.filter((m) => m.type !== "ping");
+      this.#pending.unshift(...unsent.slice(-MAX_PENDING));
+      if (this.#connected || this.#retryMs === MIN_RETRY_MS) {
+        this.#logError(`Bridge could not post to ${this.url}: ${err}`);
+      }
+      this.#connected = false;
+      this.#posting = false;
+      this.#retry(() => this.#postAll());
+      return;
+    }
+    if (!this.#connected) this.#log(`Bridge connected to ${this.url}.`);
+    this.#connected = true;
+    this.#retryMs = MIN_RETRY_MS;
+    this.#posting = false;
+    if (text.trim()) {
+      try {
+        this.#receive(JSON.parse(text));
+      } catch {
+        this.#logError("Bridge ignored a response that isn't JSON.");
+      }
+    }
+    if (this.#pending.length) {
+      this.#postAll();
+    } else if (!this.#stopped) {
+      this.#timer = setTimeout(
+        () => this.post({ type: "ping" }),
+        PING_INTERVAL_MS,
+      );
+    }
+  }
+
+  #retry(again: () => void) {
+    if (this.#stopped) return;
+    clearTimeout(this.#timer);
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      again();
+    }, this.#retryMs);
+    this.#retryMs = Math.min(this.#retryMs * 2, MAX_RETRY_MS);
+  }
+
+  /** A command or, over HTTP, an array of them. */
+  #receive(data: unknown) {
+    for (const message of Array.isArray(data) ? data : [data]) {
+      const problem = validateInbound(message);
+      if (problem) {
+        this.#logError(`Bridge ignored a message: ${problem}.`);
+        const id = (message as { id?: unknown } | null)?.id;
+        if (typeof id === "string") {
+          this.post({ type: "ack", id, ok: false, error: problem });
+        }
+        continue;
+      }
+      this.onmessage?.(message as BridgeInbound);
+    }
+  }
+}
@@ -0,0 +1,875 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { AudioUploadFormat } from "./audio-preprocess";
+import { primaryLanguage } from "./language";
+import type { LlmEndpoint } from "./llm";
+import { DEFAULT_WAKE_PHRASE } from "./web-speech";
+import type { EndpointingMode } from "./web-speech";
+
+/**
+ * An assistant with its own wake phrase. Settings it leaves out fall back to
+ * the top-level config.
+ */
+export interface Persona {
+  name: string;
+  /** Case-insensitive regular expression source. */
+  wakePhrase: string;
+  /** Only needed if baseUrl points at a different provider. */
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  systemPrompt?: string;
+  ttsVoice?: string;
+  ttsRate?: number;
+  /** URL of a sound played instead of the default activation sound. */
+  activationSound?: string;
+}
+
+/** A model tried when the main one fails, in order. */
+export interface Fallback {
+  model: string;
+  /** Defaults to the main (or persona's) base URL and API key. */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface AssistantConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  /**
+   * The current time is prepended to this on every request, and what
+   * replyLanguage asks for appended.
+   */
+  systemPrompt: string;
+  /** Case-insensitive regular expression source. */
+  wakePhrase: string;
+  /**
+   * Wake phrases by BCP 47 tag ("de-AT") or language ("de"), used instead of
+   * wakePhrase while recognizing that language.
+   */
+  localizedWakePhrases: Record<string, string>;
+  /** BCP 47 tag speech is recognized in; empty for the browser's language. */
+  recognitionLang: string;
+  /**
+   * BCP 47 tag of the language to answer in, or "auto" for the language the
+   * user spoke. Either way, each sentence is read by a voice speaking it.
+   */
+  replyLanguage: string;
+  /** 0 to 1; higher also accepts sound-alikes and unsure recognition. */
+  wakeSensitivity: number;
+  /** Wake phrases are ignored for this long after an activation. */
+  wakeCooldownMs: number;
+  /** Regexes of speech that never activates, e.g. "ok google maps". */
+  wakeNegativePhrases: string[];
+  bargeIn: boolean;
+  endpointing: EndpointingMode;
+  audioFormat: AudioUploadFormat;
+  followUpWindowMs: number;
+  /** User/assistant turn pairs each conversation keeps verbatim. */
+  conversationMaxTurns: number;
+  /** Rough token budget for those turns; older ones are summarized. */
+  conversationMaxTokens: number;
+  /** A conversation starts over after this long without a turn. */
+  conversationIdleMs: number;
+  /** speechSynthesis voice name; empty for the browser default. */
+  ttsVoice: string;
+  ttsRate: number;
+  personas: Persona[];
+  /** Turns kept in the history panel; 0 keeps none. */
+  historyLimit: number;
+  fallbacks: Fallback[];
+  /** How long a model gets to start answering before the next is tried. */
+  firstTokenTimeoutMs: number;
+  totalTimeoutMs: number;
+  /** Extra attempts per model after rate limits and server errors. */
+  llmRetries: number;
+  /**
+   * How speech becomes the model's input: the recording itself ("model"),
+   * an /audio/transcriptions endpoint ("api") or the browser's speech
+   * recognition ("browser"). The latter two work with text-only models.
+   */
+  sttProvider: SttProvider;
+  sttModel: string;
+  /** Empty for baseUrl and apiKey. */
+  sttBaseUrl: string;
+  sttApiKey: string;
+  /** "browser" speechSynthesis or an /audio/speech endpoint ("api"). */
+  ttsProvider: TtsProvider;
+  ttsModel: string;
+  /** Empty for baseUrl and apiKey. */
+  ttsBaseUrl: string;
+  ttsApiKey: string;
+  /** Answer simple commands like "what time is it" without the model. */
+  localIntents: boolean;
+  /**
+   * ws(s):// or http(s):// URL of a hub, e.g. home automation, that gets
+   * the assistant's events and may send it commands; empty for none. See
+   * bridge-protocol.ts.
+   */
+  bridgeUrl: string;
+  bridgeToken: string;
+  /** Send command recordings to the hub too. */
+  bridgeAudio: boolean;
+}
+
+export type SttProvider = "model" | "api" | "browser";
+export type TtsProvider = "browser" | "api";
+
+export const DEFAULT_CONFIG: AssistantConfig = {
+  apiKey: "",
+  baseUrl: "https://openrouter.ai/api/v1",
+  model: "mistralai/voxtral-small-24b-2507",
+  systemPrompt: "Answer concisely.",
+  wakePhrase: "(?:ok|okay)[^a-z]+google",
+  localizedWakePhrases: {},
+  recognitionLang: "",
+  replyLanguage: "auto",
+  wakeSensitivity: 0.5,
+  wakeCooldownMs: 2000,
+  wakeNegativePhrases: [],
+  bargeIn: false,
+  endpointing: "stt",
+  audioFormat: "wav",
+  followUpWindowMs: 8000,
+  conversationMaxTurns: 10,
+  conversationMaxTokens: 8000,
+  conversationIdleMs: 300000,
+  ttsVoice: "",
+  ttsRate: 1,
+  personas: [],
+  historyLimit: 200,
+  fallbacks: [],
+  firstTokenTimeoutMs: 15000,
+  totalTimeoutMs: 60000,
+  llmRetries: 2,
+  sttProvider: "model",
+  sttModel: "whisper-1",
+  sttBaseUrl: "",
+  sttApiKey: "",
+  ttsProvider: "browser",
+  ttsModel: "gpt-4o-mini-tts",
+  ttsBaseUrl: "",
+  ttsApiKey: "",
+  localIntents: true,
+  bridgeUrl: "",
+  bridgeToken: "",
+  bridgeAudio: false,
+};
+
+export type ConfigSource =
+  | "server"
+  | "localStorage"
+  | "url"
+  | "settings"
+  | "attribute";
+
+export interface ConfigError {
+  key: keyof AssistantConfig;
+  source: ConfigSource;
+  message: string;
+}
+
+interface Field<K extends keyof AssistantConfig> {
+  /** Key in /api/llm-completion-config.json and localStorage. */
+  json: string;
+  /** URL query parameter. */
+  param: string;
+  parse: (raw: unknown) => AssistantConfig[K];
+  /** Returns an error message, or undefined if the value is fine. */
+  validate?: (value: AssistantConfig[K]) => string | undefined;
+  /** JSON form of the value, if it isn't the value itself. */
+  serialize?: (value: AssistantConfig[K]) => unknown;
+}
+
+const string = (raw: unknown) => {
+  if (typeof raw !== "string") throw new Error("must be a string");
+  return raw;
+};
+const boolean = (raw: unknown) => {
+  if (typeof raw === "boolean") return raw;
+  // URL flags: "?barge-in" and "?barge-in=1" are on, "=0"/"=false" off.
+  if (raw === "" || raw === "1" || raw === "true") return true;
+  if (raw === "0" || raw === "false") return false;
+  throw new Error("must be true or false");
+};
+const number = (raw: unknown) => {
+  const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error("must be a number");
+  }
+  return value;
+};
+const validateUrl = (v: string) => {
+  try {
+    const url = new URL(v);
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "must be an http(s) URL";
+    }
+  } catch {
+    return "is not a valid URL";
+  }
+};
+const validateOptionalUrl = (v: string) => (v ? validateUrl(v) : undefined);
+const validateBridgeUrl = (v: string) => {
+  if (!v) return;
+  try {
+    if (!/^(?:wss?|https?):$/.test(new URL(v).protocol)) {
+      return "must be a ws(s) or http(s) URL";
+    }
+  } catch {
+    return "is not a valid URL";
+  }
+};
+const validateWakePhrase = (v: string) => {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(v, "i");
+  } catch (err: any) {
+    return `is not a valid regular expression: ${err.message}`;
+  }
+  if (regex.test("")) return "must not match empty speech";
+};
+/**
+ * Accepts a JSON array of regexes, or one per line, e.g. in the URL
+ * "?wake-negative-phrases=google maps%0Ahey siri".
+ */
+const regexList = (raw: unknown): string[] => {
+  if (typeof raw === "string") {
+    if (raw.trimStart().startsWith("[")) {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        throw new Error("must be a JSON array");
+      }
+    } else {
+      raw = raw.split("\n").map((line) => line.trim()).filter(Boolean);
+    }
+  }
+  if (!Array.isArray(raw)) throw new Error("must be an array");
+  return raw.map((item, i) => {
+    if (typeof item !== "string") throw new Error(`entry ${i + 1} must be a string`);
+    return item;
+  });
+};
+const validateRegexList = (list: string[]) => {
+  for (const [i, source] of list.entries()) {
+    try {
+      new RegExp(source, "i");
+    } catch (err: any) {
+      return `entry ${i + 1} is not a valid regular expression: ${err.message}`;
+    }
+  }
+};
+const validateLanguageTag = (v: string) => {
+  try {
+    Intl.getCanonicalLocales(v);
+  } catch {
+    return "is not a BCP 47 language tag, e.g. en-US";
+  }
+};
+const validateOptionalLanguageTag = (v: string) =>
+  v ? validateLanguageTag(v) : undefined;
+/** Accepts a JSON object, e.g. {"de": "hallo[^a-z]+computer"}. */
+const phrasesByLanguage = (raw: unknown): Record<string, string> => {
+  if (typeof raw === "string") {
+    if (!raw.trim()) return {};
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new Error("must be a JSON object");
+    }
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("must be an object");
+  }
+  return Object.fromEntries(
+    Object.entries(raw).map(([lang, phrase]) => {
+      if (typeof phrase !== "string") throw new Error(`${lang} must be a string`);
+      return [lang, phrase];
+    }),
+  );
+};
+const validatePhrasesByLanguage = (phrases: Record<string, string>) => {
+  for (const [lang, phrase] of Object.entries(phrases)) {
+    const problem = validateLanguageTag(lang) ??
+      validateWakePhrase(phrase);
+    if (problem) return `${lang} ${problem}`;
+  }
+};
+const validateTtsRate = (v: number) =>
+  v >= 0.1 && v <= 10 ? undefined : "must be between 0.1 and 10";
+
+/** Persona settings by their key in JSON, in the order they're written. */
+const PERSONA_KEYS: [keyof Persona, string][] = [
+  ["name", "name"],
+  ["wakePhrase", "wake_phrase"],
+  ["apiKey", "api_key"],
+  ["baseUrl", "base_url"],
+  ["model", "model"],
+  ["systemPrompt", "system_prompt"],
+  ["ttsVoice", "tts_voice"],
+  ["ttsRate", "tts_rate"],
+  ["activationSound", "activation_sound"],
+];
+
+/** Accepts a JSON array (as a string in the URL and settings panel). */
+const personas = (raw: unknown): Persona[] => {
+  if (typeof raw === "string") {
+    if (!raw.trim()) return [];
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new Error("must be a JSON array");
+    }
+  }
+  if (!Array.isArray(raw)) throw new Error("must be an array");
+  return raw.map((item, i) => {
+    if (typeof item !== "object" || item === null) {
+      throw new Error(`entry ${i + 1} must be an object`);
+    }
+    const persona: Record<string, unknown> = {};
+    for (const [key, json] of PERSONA_KEYS) {
+      const value = item[json];
+      if (value === undefined) continue;
+      try {
+        persona[key] = key === "ttsRate" ? number(value) : string(value);
+      } catch (err: any) {
+        throw new Error(`entry ${i + 1}: ${json} ${err.message}`);
+      }
+    }
+    return persona as unknown as Persona;
+  });
+};
+const validatePersona = (p: Persona, names: Set<string>) => {
+  if (!p.name?.trim()) return "name must not be empty";
+  if (p.name === DEFAULT_WAKE_PHRASE) {
+    return `name must not be "${DEFAULT_WAKE_PHRASE}"`;
+  }
+  if (names.has(p.name)) return `name "${p.name}" is used twice`;
+  if (p.wakePhrase === undefined) return "wake_phrase is required";
+  let problem = validateWakePhrase(p.wakePhrase);
+  if (problem) return `wake_phrase ${problem}`;
+  problem = p.baseUrl === undefined ? undefined : validateUrl(p.baseUrl);
+  if (problem) return `base_url ${problem}`;
+  problem = p.ttsRate === undefined ? undefined : validateTtsRate(p.ttsRate);
+  if (problem) return `tts_rate ${problem}`;
+};
+const validatePersonas = (list: Persona[]) => {
+  const names = new Set<string>();
+  for (const [i, persona] of list.entries()) {
+    const problem = validatePersona(persona, names);
+    if (problem) return `entry ${i + 1}: ${problem}`;
+    names.add(persona.name);
+  }
+};
+const serializePersonas = (list: Persona[]) =>
+  list.map((p) => {
+    const json: Record<string, unknown> = {};
+    for (const [key, name] of PERSONA_KEYS) {
+      if (p[key] !== undefined) json[name] = p[key];
+    }
+    return json;
+  });
+
+const FALLBACK_KEYS: [keyof Fallback, string][] = [
+  ["model", "model"],
+  ["baseUrl", "base_url"],
+  ["apiKey", "api_key"],
+];
+
+/**
+ * Accepts a JSON array of model names or objects, or a comma-separated list
+ * of model names, e.g. "?fallbacks=openai/gpt-4o-audio-preview,google/gemini-2.5-flash".
+ */
+const fallbacks = (raw: unknown): Fallback[] => {
+  if (typeof raw === "string") {
+    if (!raw.trim()) return [];
+    if (raw.trimStart().startsWith("[")) {
+      try {
+        raw = JSON.parse(raw);
+      } catch {
+        throw new Error("must be a JSON array");
+      }
+    } else {
+      raw = raw.split(",").map((model) => model.trim()).filter(Boolean);
+    }
+  }
+  if (!Array.isArray(raw)) throw new Error("must be an array");
+  return raw.map((item, i) => {
+    if (typeof item === "string") return { model: item };
+    if (typeof item !== "object" || item === null) {
+      throw new Error(`entry ${i + 1} must be a model name or an object`);
+    }
+    const fallback: Record<string, unknown> = {};
+    for (const [key, json] of FALLBACK_KEYS) {
+      if (item[json] === undefined) continue;
+      try {
+        fallback[key] = string(item[json]);
+      } catch (err: any) {
+        throw new Error(`entry ${i + 1}: ${json} ${err.message}`);
+      }
+    }
+    return fallback as unknown as Fallback;
+  });
+};
+const validateFallbacks = (list: Fallback[]) => {
+  for (const [i, fallback] of list.entries()) {
+    if (!fallback.model?.trim()) return `entry ${i + 1}: model is required`;
+    const problem = fallback.baseUrl === undefined
+      ? undefined
+      : validateUrl(fallback.baseUrl);
+    if (problem) return `entry ${i + 1}: base_url ${problem}`;
+  }
+};
+/** Plain model names stay plain. */
+const serializeFallbacks = (list: Fallback[]) =>
+  list.map((f) => {
+    if (f.baseUrl === undefined && f.apiKey === undefined) return f.model;
+    const json: Record<string, unknown> = {};
+    for (const [key, name] of FALLBACK_KEYS) {
+      if (f[key] !== undefined) json[name] = f[key];
+    }
+    return json;
+  });
+
+const timeout = (v: number) =>
+  v >= 1000 && v <= 600000 ? undefined : "must be between 1000 and 600000";
+
+const oneOf = <T extends string>(...values: T[]) => (raw: unknown) => {
+  if (!values.includes(raw as T)) {
+    throw new Error(`must be one of ${values.join(", ")}`);
+  }
+  return raw as T;
+};
+
+const FIELDS: { [K in keyof AssistantConfig]: Field<K> } = {
+  apiKey: { json: "api_key", param: "api-key", parse: string },
+  baseUrl: {
+    json: "base_url",
+    param: "base-url",
+    parse: string,
+    validate: validateUrl,
+  },
+  model: {
+    json: "model",
+    param: "model",
+    parse: string,
+    validate: (v) => (v.trim() ? undefined : "must not be empty"),
+  },
+  systemPrompt: { json: "system_prompt", param: "system-prompt", parse: string },
+  wakePhrase: {
+    json: "wake_phrase",
+    param: "wake-phrase",
+    parse: string,
+    validate: validateWakePhrase,
+  },
+  localizedWakePhrases: {
+    json: "localized_wake_phrases",
+    param: "localized-wake-phrases",
+    parse: phrasesByLanguage,
+    validate: validatePhrasesByLanguage,
+  },
+  recognitionLang: {
+    json: "recognition_lang",
+    param: "recognition-lang",
+    parse: string,
+    validate: validateOptionalLanguageTag,
+  },
+  replyLanguage: {
+    json: "reply_language",
+    param: "reply-language",
+    parse: string,
+    validate: (v) => (v === "auto" ? undefined : validateLanguageTag(v)),
+  },
+  wakeSensitivity: {
+    json: "wake_sensitivity",
+    param: "wake-sensitivity",
+    parse: number,
+    validate: (v) => v >= 0 && v <= 1 ? undefined : "must be between 0 and 1",
+  },
+  wakeCooldownMs: {
+    json: "wake_cooldown_ms",
+    param: "wake-cooldown-ms",
+    parse: number,
+    validate: (v) =>
+      v >= 0 && v <= 60000 ? undefined : "must be between 0 and 60000",
+  },
+  wakeNegativePhrases: {
+    json: "wake_negative_phrases",
+    param: "wake-negative-phrases",
+    parse: regexList,
+    validate: validateRegexList,
+  },
+  bargeIn: { json: "barge_in", param: "barge-in", parse: boolean },
+  endpointing: {
+    json: "endpointing",
+    param: "endpointing",
+    parse: oneOf("stt", "vad", "both"),
+  },
+  audioFormat: {
+    json: "audio_format",
+    param: "audio-format",
+    parse: oneOf("wav", "mp3"),
+  },
+  followUpWindowMs: {
+    json: "follow_up_window_ms",
+    param: "follow-up-window-ms",
+    parse: number,
+    validate: (v) =>
+      v >= 0 && v <= 60000 ? undefined : "must be between 0 and 60000",
+  },
+  conversationMaxTurns: {
+    json: "conversation_max_turns",
+    param: "conversation-max-turns",
+    parse: number,
+    validate: (v) =>
+      Number.isInteger(v) && v >= 1 && v <= 100
+        ? undefined
+        : "must be a whole number between 1 and 100",
+  },
+  conversationMaxTokens: {
+    json: "conversation_max_tokens",
+    param: "conversation-max-tokens",
+    parse: number,
+    validate: (v) =>
+      Number.isInteger(v) && v >= 100 && v <= 1000000
+        ? undefined
+        : "must be a whole number between 100 and 1000000",
+  },
+  conversationIdleMs: {
+    json: "conversation_idle_ms",
+    param: "conversation-idle-ms",
+    parse: number,
+    validate: (v) =>
+      v >= 0 && v <= 86400000 ? undefined : "must be between 0 and 86400000",
+  },
+  ttsVoice: { json: "tts_voice", param: "tts-voice", parse: string },
+  ttsRate: {
+    json: "tts_rate",
+    param: "tts-rate",
+    parse: number,
+    validate: validateTtsRate,
+  },
+  personas: {
+    json: "personas",
+    param: "personas",
+    parse: personas,
+    validate: validatePersonas,
+    serialize: serializePersonas,
+  },
+  historyLimit: {
+    json: "history_limit",
+    param: "history-limit",
+    parse: number,
+    validate: (v) =>
+      Number.isInteger(v) && v >= 0 && v <= 10000
+        ? undefined
+        : "must be a whole number between 0 and 10000",
+  },
+  fallbacks: {
+    json: "fallbacks",
+    param: "fallbacks",
+    parse: fallbacks,
+    validate: validateFallbacks,
+    serialize: serializeFallbacks,
+  },
+  firstTokenTimeoutMs: {
+    json: "first_token_timeout_ms",
+    param: "first-token-timeout-ms",
+    parse: number,
+    validate: timeout,
+  },
+  totalTimeoutMs: {
+    json: "total_timeout_ms",
+    param: "total-timeout-ms",
+    parse: number,
+    validate: timeout,
+  },
+  llmRetries: {
+    json: "llm_retries",
+    param: "llm-retries",
+    parse: number,
+    validate: (v) =>
+      Number.isInteger(v) && v >= 0 && v <= 5
+        ? undefined
+        : "must be a whole number between 0 and 5",
+  },
+  sttProvider: {
+    json: "stt_provider",
+    param: "stt-provider",
+    parse: oneOf("model", "api", "browser"),
+  },
+  sttModel: { json: "stt_model", param: "stt-model", parse: string },
+  sttBaseUrl: {
+    json: "stt_base_url",
+    param: "stt-base-url",
+    parse: string,
+    validate: validateOptionalUrl,
+  },
+  sttApiKey: { json: "stt_api_key", param: "stt-api-key", parse: string },
+  ttsProvider: {
+    json: "tts_provider",
+    param: "tts-provider",
+    parse: oneOf("browser", "api"),
+  },
+  ttsModel: { json: "tts_model", param: "tts-model", parse: string },
+  ttsBaseUrl: {
+    json: "tts_base_url",
+    param: "tts-base-url",
+    parse: string,
+    validate: validateOptionalUrl,
+  },
+  ttsApiKey: { json: "tts_api_key", param: "tts-api-key", parse: string },
+  localIntents: { json: "local_intents", param: "local-intents", parse: boolean },
+  bridgeUrl: {
+    json: "bridge_url",
+    param: "bridge-url",
+    parse: string,
+    validate: validateBridgeUrl,
+  },
+  bridgeToken: { json: "bridge_token", param: "bridge-token", parse: string },
+  bridgeAudio: { json: "bridge_audio", param: "bridge-audio", parse: boolean },
+};
+
+/** Kept for the page session only, never written to localStorage. */
+const SECRETS: (keyof AssistantConfig)[] = [
+  "apiKey",
+  "sttApiKey",
+  "ttsApiKey",
+  "bridgeToken",
+];
+
+const STORAGE_KEY = "voice-assistant.settings";
+
+/** Human-readable name of a setting, e.g. for error messages. */
+export function settingName(key: keyof AssistantConfig): string {
+  return FIELDS[key].json;
+}
+
+/** The value as written in the config file, e.g. for editing as JSON. */
+export function serializeSetting<K extends keyof AssistantConfig>(
+  key: K,
+  value: AssistantConfig[K],
+): unknown {
+  const field = FIELDS[key] as Field<K>;
+  return field.serialize ? field.serialize(value) : value;
+}
+
+/**
+ * The config with a persona's settings applied, or the config itself for
+ * DEFAULT_WAKE_PHRASE and unknown names.
+ */
+export function resolvePersona(
+  config: AssistantConfig,
+  name: string,
+): AssistantConfig {
+  const persona = config.personas.find((p) => p.name === name);
+  if (!persona) return config;
+  return {
+    ...config,
+    apiKey: persona.apiKey ?? config.apiKey,
+    baseUrl: persona.baseUrl ?? config.baseUrl,
+    model: persona.model ?? config.model,
+    systemPrompt: persona.systemPrompt ?? config.systemPrompt,
+    ttsVoice: persona.ttsVoice ?? config.ttsVoice,
+    ttsRate: persona.ttsRate ?? config.ttsRate,
+  };
+}
+
+/**
+ * The wake phrase for the recognition language, or the browser's: localized
+ * for its tag, then for its language, else wakePhrase.
+ */
+export function wakePhraseFor(config: AssistantConfig): string {
+  const lang = config.recognitionLang || globalThis.navigator?.language || "";
+  const phrases = config.localizedWakePhrases;
+  const tag = Object.keys(phrases).find((key) =>
+    key.toLowerCase() === lang.toLowerCase()
+  );
+  return phrases[tag ?? primaryLanguage(lang)] ?? config.wakePhrase;
+}
+
+/** The model to ask, then its fallbacks in order. */
+export function llmEndpoints(config: AssistantConfig): LlmEndpoint[] {
+  return [
+    { apiKey: config.apiKey, baseUrl: config.baseUrl, model: config.model },
+    ...config.fallbacks.map((f) => ({
+      apiKey: f.apiKey ?? config.apiKey,
+      baseUrl: f.baseUrl ?? config.baseUrl,
+      model: f.model,
+    })),
+  ];
+}
+
+/** Where /audio/transcriptions is called when sttProvider is "api". */
+export function sttEndpoint(config: AssistantConfig): LlmEndpoint {
+  return {
+    apiKey: config.sttApiKey || config.apiKey,
+    baseUrl: config.sttBaseUrl || config.baseUrl,
+    model: config.sttModel,
+  };
+}
+
+/** Where /audio/speech is called when ttsProvider is "api". */
+export function ttsEndpoint(config: AssistantConfig): LlmEndpoint {
+  return {
+    apiKey: config.ttsApiKey || config.apiKey,
+    baseUrl: config.ttsBaseUrl || config.baseUrl,
+    model: config.ttsModel,
+  };
+}
+
+/**
+ * Parses and validates one layer of raw values. Invalid values are dropped
+ * and reported so the lower layers' values stay in effect.
+ */
+export function parseLayer(
+  raw: Partial<Record<keyof AssistantConfig, unknown>>,
+  source: ConfigSource,
+  errors: ConfigError[] = [],
+): Partial<AssistantConfig> {
+  const layer: Partial<AssistantConfig> = {};
+  for (const key of Object.keys(FIELDS) as (keyof AssistantConfig)[]) {
+    if (raw[key] === undefined) continue;
+    const field = FIELDS[key] as Field<typeof key>;
+    try {
+      const value = field.parse(raw[key]);
+      const problem = field.validate?.(value as never);
+      if (problem) throw new Error(problem);
+      (layer as Record<string, unknown>)[key] = value;
+    } catch (err: any) {
+      errors.push({
+        key,
+        source,
+        message: `${settingName(key)} from ${source} ${err.message}`,
+      });
+    }
+  }
+  return layer;
+}
+
+function fromJson(json: Record<string, unknown>) {
+  const raw: Partial<Record<keyof AssistantConfig, unknown>> = {};
+  for (const [key, field] of Object.entries(FIELDS)) {
+    if (field.json in json) raw[key as keyof AssistantConfig] = json[field.json];
+  }
+  return raw;
+}
+
+function toJson(config: Partial<AssistantConfig>) {
+  const json: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    const name = key as keyof AssistantConfig;
+    json[FIELDS[name].json] = serializeSetting(name, value as never);
+  }
+  return json;
+}
+
+async function loadServerLayer(): Promise<Record<string, unknown>> {
+  try {
+    const res = await fetch("/api/llm-completion-config.json");
+    return res.ok ? await res.json() : {};
+  } catch {
+    return {};
+  }
+}
+
+function loadStoredLayer(): Record<string, unknown> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Raw values by param name, e.g. from URL parameters or HTML attributes. */
+export function fromParams(get: (param: string) => string | null) {
+  const raw: Partial<Record<keyof AssistantConfig, unknown>> = {};
+  for (const [key, field] of Object.entries(FIELDS)) {
+    const value = get(field.param);
+    if (value !== null) raw[key as keyof AssistantConfig] = value;
+  }
+  return raw;
+}
+
+/** Every URL parameter name, e.g. for observedAttributes. */
+export function settingParams(): string[] {
+  return Object.values(FIELDS).map((field) => field.param);
+}
+
+/**
+ * Layered configuration: defaults, then the server's
+ * /api/llm-completion-config.json, then settings saved in localStorage,
+ * then URL parameters.
+ */
+export class ConfigStore {
+  #base: AssistantConfig = { ...DEFAULT_CONFIG };
+  #stored: Partial<AssistantConfig> = {};
+  #url: Partial<AssistantConfig> = {};
+  #session: Partial<AssistantConfig> = {};
+  errors: ConfigError[] = [];
+
+  static async load(search = location.search): Promise<ConfigStore> {
+    const store = new ConfigStore();
+    const errors: ConfigError[] = [];
+    const server = parseLayer(fromJson(await loadServerLayer()), "server", errors);
+    store.#base = { ...DEFAULT_CONFIG, ...server };
+    store.#stored = parseLayer(fromJson(loadStoredLayer()), "localStorage", errors);
+    store.#url = parseLayer(
+      fromParams((param) => new URLSearchParams(search).get(param)),
+      "url",
+      errors,
+    );
+    store.errors = errors;
+    return store;
+  }
+
+  get config(): AssistantConfig {
+    return { ...this.#base, ...this.#stored, ...this.#session, ...this.#url };
+  }
+
+  /**
+   * Validates values edited in the settings panel. On success they're saved
+   * to localStorage (only those differing from defaults/server config; API
+   * keys are kept for this page session only) and the merged config is
+   * returned. URL parameters still win over saved values.
+   */
+  update(
+    raw: Partial<Record<keyof AssistantConfig, unknown>>,
+  ): { config: AssistantConfig; errors: ConfigError[] } {
+    const errors: ConfigError[] = [];
+    const layer = parseLayer(raw, "settings", errors);
+    if (errors.length) return { config: this.config, errors };
+
+    const persistent: Record<string, unknown> = { ...this.#stored, ...layer };
+    for (const key of SECRETS) {
+      if (persistent[key] === undefined) continue;
+      (this.#session as Record<string, unknown>)[key] = persistent[key];
+      delete persistent[key];
+    }
+    const stored: Partial<AssistantConfig> = {};
+    for (const [key, value] of Object.entries(persistent)) {
+      const base = this.#base[key as keyof AssistantConfig];
+      if (JSON.stringify(base) !== JSON.stringify(value)) {
+        (stored as Record<string, unknown>)[key] = value;
+      }
+    }
+    this.#stored = stored;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toJson(stored)));
+    return { config: this.config, errors };
+  }
+
+  reset(): AssistantConfig {
+    this.#stored = {};
+    localStorage.removeItem(STORAGE_KEY);
+    return this.config;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConversationSession } from "./conversation";
+import type { Summarizer } from "./conversation";
+
+const user = (content: string) => ({ role: "user" as const, content });
+
+/** A session keeping two turns, summarized by the given function. */
+function session(summarize: Summarizer) {
+  return new ConversationSession({
+    maxTurns: 2,
+    summarize,
+    summaryTimeoutMs: 1000,
+    log: () => {},
+    logError: () => {},
+  });
+}
+
+/** A summarizer that never answers, but gives up when aborted. */
+const hanging: Summarizer = (_, __, signal) =>
+  new Promise((_, reject) =>
+    signal.addEventListener("abort", () => reject(signal.reason))
+  );
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ConversationSession", () => {
+  it("summarizes turns that no longer fit", async () => {
+    const summarize = vi.fn<Summarizer>(async (previous, turns) =>
+      `${previous}${turns.map((t) => t.user.content).join(",")};`
+    );
+    const s = session(summarize);
+    for (const text of ["a", "b", "c", "d"]) await s.addTurn(user(text), "ok");
+    expect(s.turns.map((t) => t.user.content)).toEqual(["c", "d"]);
+    expect(s.summary).toBe("a;b;");
+    expect(s.messages("Be brief.", user("e"))[0].content).toContain("a;b;");
+  });
+
+  it("adds the turn before the summary is done", async () => {
+    const s = session(hanging);
+    for (const text of ["a", "b"]) await s.addTurn(user(text), "ok");
+    const added = s.addTurn(user("c"), "ok");
+    expect(s.turns.map((t) => t.user.content)).toEqual(["b", "c"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await added;
+  });
+
+  it("drops the turns when summarizing times out", async () => {
+    const s = session(hanging);
+    for (const text of ["a", "b"]) await s.addTurn(user(text), "ok");
+    const added = s.addTurn(user("c"), "ok");
+    await vi.advanceTimersByTimeAsync(1000);
+    await added;
+    expect(s.turns.map((t) => t.user.content)).toEqual(["b", "c"]);
+    expect(s.summary).toBe("");
+  });
+
+  it("keeps the turns for later when the turn is cancelled", async () => {
+    const s = session(hanging);
+    for (const text of ["a", "b"]) await s.addTurn(user(text), "ok");
+    const controller = new AbortController();
+    const added = s.addTurn(user("c"), "ok", controller.signal);
+    controller.abort();
+    await added;
+    expect(s.turns.map((t) => t.user.content)).toEqual(["a", "b", "c"]);
+
+    await s.addTurn(user("d"), "ok", AbortSignal.abort());
+    expect(s.turns).toHaveLength(4);
+  });
+});
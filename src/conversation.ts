@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+export interface ConversationTurn {
+  user: ChatCompletionMessageParam;
+  assistant: ChatCompletionMessageParam;
+}
+
+/**
+ * Folds turns that no longer fit the budget into a running text summary.
+ * Receives the previous summary (if any) and the turns being evicted.
+ */
+export type Summarizer = (
+  previousSummary: string,
+  turns: ConversationTurn[],
+  signal: AbortSignal,
+) => Promise<string>;
+
+export interface ConversationOptions {
+  /** Maximum number of user/assistant turn pairs kept verbatim. */
+  maxTurns?: number;
+  /** Approximate token budget for the kept turns (see estimateTokens). */
+  maxTokens?: number;
+  /** Start a fresh session when no turn was added for this long. */
+  idleTimeoutMs?: number;
+  /** When set, evicted turns are summarized instead of being dropped. */
+  summarize?: Summarizer;
+  /** Evicted turns are dropped if summarizing takes longer than this. */
+  summaryTimeoutMs?: number;
+  log?: (msg: string) => void;
+  logError?: (msg: string) => void;
+}
+
+/**
+ * Rough token estimate, good enough for budgeting. Text is ~4 chars/token;
+ * audio is billed per second by most providers, and 16-bit 48kHz mono WAV is
+ * ~96KB/s, so ~3.2KB of decoded audio per token keeps us near 30 tokens/s.
+ */
+export function estimateTokens(message: ChatCompletionMessageParam): number {
+  const content = message.content;
+  if (!content) return 0;
+  if (typeof content === "string") return Math.ceil(content.length / 4);
+  let tokens = 0;
+  for (const part of content) {
+    if (part.type === "text") tokens += Math.ceil(part.text.length / 4);
+    else if (part.type === "input_audio") {
+      tokens += Math.ceil((part.input_audio.data.length * 3) / 4 / 3200);
+    }
+  }
+  return tokens;
+}
+
+export class ConversationSession {
+  #turns: ConversationTurn[] = [];
+  #summary = "";
+  #lastActivity = Date.now();
+  #maxTurns: number;
+  #maxTokens: number;
+  #idleTimeoutMs: number;
+  #summarize: Summarizer | undefined;
+  #summaryTimeoutMs: number;
+  #log: (msg: string) => void;
+  #logError: (msg: string) => void;
+
+  constructor(
+    {
+      maxTurns = 10,
+      maxTokens = 8000,
+      idleTimeoutMs = 5 * 60 * 1000,
+      summarize,
+      summaryTimeoutMs = 20000,
+      log = console.log,
+      logError = console.error,
+    }: ConversationOptions = {},
+  ) {
+    this.#maxTurns = maxTurns;
+    this.#maxTokens = maxTokens;
+    this.#idleTimeoutMs = idleTimeoutMs;
+    this.#summarize = summarize;
+    this.#summaryTimeoutMs = summaryTimeoutMs;
+    this.#log = log;
+    this.#logError = logError;
+  }
+
+  get turns(): readonly ConversationTurn[] {
+    this.#expireIfIdle();
+    return this.#turns;
+  }
+
+  get summary(): string {
+    this.#expireIfIdle();
+    return this.#summary;
+  }
+
+  /** Applies new limits; the budget is enforced on the next turn. */
+  setLimits(
+    { maxTurns, maxTokens, idleTimeoutMs }: Pick<
+      ConversationOptions,
+      "maxTurns" | "maxTokens" | "idleTimeoutMs"
+    >,
+  ) {
+    this.#maxTurns = maxTurns ?? this.#maxTurns;
+    this.#maxTokens = maxTokens ?? this.#maxTokens;
+    this.#idleTimeoutMs = idleTimeoutMs ?? this.#idleTimeoutMs;
+  }
+
+  reset() {
+    this.#turns = [];
+    this.#summary = "";
+    this.#lastActivity = Date.now();
+  }
+
+  /**
+   * Builds the message list for the next request: system prompt (with the
+   * running summary appended), prior turns, then the new user message.
+   */
+  messages(
+    systemPrompt: string,
+    user: ChatCompletionMessageParam,
+  ): ChatCompletionMessageParam[] {
+    this.#expireIfIdle();
+    const system = this.#summary
+      ? `${systemPrompt}\n\nSummary of the earlier conversation: ${this.#summary}`
+      : systemPrompt;
+    return [
+      { role: "system", content: system },
+      ...this.#turns.flatMap((t) => [t.user, t.assistant]),
+      user,
+    ];
+  }
+
+  /**
+   * Adds a turn straight away, then summarizes turns that no longer fit. If
+   * the signal is aborted first, they're kept for the next turn to summarize.
+   */
+  async addTurn(
+    user: ChatCompletionMessageParam,
+    reply: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this.#expireIfIdle();
+    this.#turns.push({ user, assistant: { role: "assistant", content: reply } });
+    this.#lastActivity = Date.now();
+    await this.#enforceBudget(signal);
+  }
+
+  #expireIfIdle() {
+    if (this.#turns.length === 0 && !this.#summary) return;
+    if (Date.now() - this.#lastActivity < this.#idleTimeoutMs) return;
+    this.#log(
+      `Conversation idle for ${this.#idleTimeoutMs / 1000}s, starting a new session.`,
+    );
+    this.reset();
+  }
+
+  #tokenCount(): number {
+    return this.#turns.reduce(
+      (sum, t) => sum + estimateTokens(t.user) + estimateTokens(t.assistant),
+      0,
+    );
+  }
+
+  async #enforceBudget(signal?: AbortSignal) {
+    const evicted: ConversationTurn[] = [];
+    // Always keep the latest turn, even if it alone exceeds the budget.
+    while (
+      this.#turns.length > 1 &&
+      (this.#turns.length > this.#maxTurns ||
+        this.#tokenCount() > this.#maxTokens)
+    ) {
+      evicted.push(this.#turns.shift()!);
+    }
+    if (evicted.length === 0) return;
+
+    if (!this.#summarize) {
+      this.#log(`Dropped ${evicted.length} old conversation turn(s).`);
+      return;
+    }
+    if (signal?.aborted) {
+      this.#turns.unshift(...evicted);
+      return;
+    }
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.#summaryTimeoutMs);
+    try {
+      this.#summary = await this.#summarize(
+        this.#summary,
+        evicted,
+        controller.signal,
+      );
+      this.#log(`Summarized ${evicted.length} old conversation turn(s).`);
+    } catch (err) {
+      if (signal?.aborted) {
+        // E.g. a follow-up started; the next turn summarizes them instead.
+        this.#turns.unshift(...evicted);
+        return;
+      }
+      this.#logError(
+        `Conversation summarization failed: ${
+          timedOut ? `no summary after ${this.#summaryTimeoutMs}ms` : err
+        }`,
+      );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+}
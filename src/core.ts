@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// The assistant without any page around it: nothing here looks up elements
+// or touches the document, so it can back other UIs. See
+// voice-assistant-element.ts for a ready-made one.
+
+export { VoiceAssistant } from "./assistant";
+export type { VoiceAssistantOptions } from "./assistant";
+export { ApiSpeechSynthesis, transcribe } from "./audio-api";
+export { EventBridge } from "./bridge";
+export type { EventBridgeOptions } from "./bridge";
+export {
+  BRIDGE_PROTOCOL_VERSION,
+  toBridgeEvent,
+  validateInbound,
+} from "./bridge-protocol";
+export type {
+  BridgeActivate,
+  BridgeAck,
+  BridgeCommandEvent,
+  BridgeErrorEvent,
+  BridgeEvent,
+  BridgeEventMessage,
+  BridgeHello,
+  BridgeInbound,
+  BridgeMute,
+  BridgeOutbound,
+  BridgePing,
+  BridgePrompt,
+  BridgeResponse,
+  BridgeSpeak,
+} from "./bridge-protocol";
+export {
+  DEFAULT_CONFIG,
+  fromParams,
+  llmEndpoints,
+  parseLayer,
+  resolvePersona,
+  serializeSetting,
+  settingName,
+  settingParams,
+  sttEndpoint,
+  ttsEndpoint,
+  wakePhraseFor,
+} from "./config";
+export type {
+  AssistantConfig,
+  ConfigError,
+  ConfigSource,
+  Fallback,
+  Persona,
+  SttProvider,
+  TtsProvider,
+} from "./config";
+export { HistoryStore, transcriptText } from "./history";
+export type { HistoryTurn, TranscriptEntry } from "./history";
+export { builtinIntents, compileRule, IntentRegistry } from "./intents";
+export type { Intent, IntentActions, IntentMatch } from "./intents";
+export {
+  detectLanguage,
+  languageName,
+  primaryLanguage,
+  replyLanguageInstruction,
+  sameLanguage,
+  voiceForLanguage,
+} from "./language";
+export { classifyLlmError, LlmError, streamCompletion } from "./llm";
+export type { LlmEndpoint, LlmErrorKind, LlmRequestOptions } from "./llm";
+export { percentile, STAGES, TurnTelemetry } from "./telemetry";
+export type { StageSummary, TurnTimings } from "./telemetry";
+export { builtinTools, ToolRegistry } from "./tools";
+export type { Tool } from "./tools";
+export { phoneticKey, spokenForms, WakeWordMatcher } from "./wake-word";
+export type {
+  WakeCandidate,
+  WakeWordMatch,
+  WakeWordOptions,
+} from "./wake-word";
+export {
+  browserSpeechSynthesis,
+  DEFAULT_WAKE_PHRASE,
+  VoiceAssistantState,
+  VoiceClient,
+} from "./web-speech";
+export type {
+  AudioStartEvent,
+  CommandEvent,
+  ErrorEvent,
+  InterruptedEvent,
+  MicrophoneOptions,
+  MicState,
+  MicStateEvent,
+  ResponseEndEvent,
+  SpeakEndEvent,
+  SpeakOptions,
+  SpeakStartEvent,
+  SpeechBackends,
+  StateChangeEvent,
+  TranscriptEvent,
+  VoiceAssistantEvent,
+  WakeWordEvent,
+} from "./web-speech";
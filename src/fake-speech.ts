@@ -0,0 +1,288 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * Scriptable stand-ins for the browser speech APIs so VoiceClient can be
+ * driven headlessly. Everything async goes through setTimeout, so fake timers
+ * control the whole state machine.
+ */
+
+import type {
+  Recorder,
+  RecorderBackend,
+  RecordingResult,
+  SpeechBackends,
+  SpeechRecognitionBackend,
+  SpeechSynthesisBackend,
+  UtteranceBackend,
+  VoiceInfo,
+} from "./web-speech";
+import { encodeWav } from "./wav";
+
+export interface FakeAlternative {
+  transcript: string;
+  confidence?: number;
+}
+
+export interface FakeResult {
+  transcript: string;
+  isFinal?: boolean;
+  confidence?: number;
+  /** Extra alternatives after the top one. */
+  alternatives?: FakeAlternative[];
+}
+
+export type FakeRecognitionStep =
+  & { afterMs?: number }
+  & (
+    | { result: string | FakeResult | (string | FakeResult)[] }
+    | { error: string }
+    | { speechstart: true }
+    | { speechend: true }
+    | { end: true }
+  );
+
+function toResult(r: string | FakeResult) {
+  const { transcript, isFinal = false, confidence = 0.9, alternatives = [] } =
+    typeof r === "string" ? { transcript: r } : r;
+  const alts = [{ transcript, confidence }, ...alternatives].map((a) => ({
+    transcript: a.transcript,
+    confidence: a.confidence ?? 0.5,
+  }));
+  return Object.assign(alts, { isFinal, item: (i: number) => alts[i] });
+}
+
+export class FakeSpeechRecognition implements SpeechRecognitionBackend {
+  continuous = false;
+  interimResults = false;
+  lang = "";
+  onresult: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onspeechstart: ((event: any) => void) | null = null;
+  onspeechend: ((event: any) => void) | null = null;
+  onend: ((event: any) => void) | null = null;
+
+  running = false;
+  startCount = 0;
+
+  start(): void {
+    // Browsers throw InvalidStateError on a double start.
+    if (this.running) throw new Error("InvalidStateError: already started");
+    this.running = true;
+    this.startCount++;
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    setTimeout(() => this.onend?.({}), 0);
+  }
+
+  /** Emits one onresult event; results are appended to a fresh list. */
+  emitResult(results: string | FakeResult | (string | FakeResult)[]): void {
+    const list = (Array.isArray(results) ? results : [results]).map(toResult);
+    this.onresult?.({
+      resultIndex: 0,
+      results: Object.assign(list, { item: (i: number) => list[i] }),
+    });
+  }
+
+  emitError(error: string): void {
+    this.onerror?.({ error });
+  }
+
+  emitSpeechStart(): void {
+    this.onspeechstart?.({});
+  }
+
+  emitSpeechEnd(): void {
+    this.onspeechend?.({});
+  }
+
+  emitEnd(): void {
+    this.running = false;
+    this.onend?.({});
+  }
+
+  /** Schedules steps one after another, each afterMs after the previous. */
+  play(steps: FakeRecognitionStep[]): void {
+    let at = 0;
+    for (const step of steps) {
+      at += step.afterMs ?? 0;
+      setTimeout(() => {
+        if ("result" in step) this.emitResult(step.result);
+        else if ("error" in step) this.emitError(step.error);
+        else if ("speechstart" in step) this.emitSpeechStart();
+        else if ("speechend" in step) this.emitSpeechEnd();
+        else this.emitEnd();
+      }, at);
+    }
+  }
+}
+
+export class FakeSpeechSynthesis implements SpeechSynthesisBackend {
+  spoken: string[] = [];
+  current: UtteranceBackend | undefined;
+  /** Finish each utterance automatically after this long; undefined waits for finish(). */
+  autoEndAfterMs: number | undefined;
+
+  constructor({ autoEndAfterMs }: { autoEndAfterMs?: number } = {}) {
+    this.autoEndAfterMs = autoEndAfterMs;
+  }
+
+  voices: VoiceInfo[] = [
+    { name: "Fake English", lang: "en-US", default: true },
+    { name: "Fake German", lang: "de-DE" },
+  ];
+
+  createUtterance(): UtteranceBackend {
+    return {
+      text: "",
+      voice: null,
+      rate: 1,
+      lang: "",
+      onstart: null,
+      onend: null,
+      onerror: null,
+    };
+  }
+
+  getVoices(): VoiceInfo[] {
+    return this.voices;
+  }
+
+  speak(utterance: UtteranceBackend): void {
+    this.current = utterance;
+    this.spoken.push(utterance.text);
+    utterance.onstart?.({});
+    if (this.autoEndAfterMs !== undefined) {
+      setTimeout(() => {
+        if (this.current !== utterance) return;
+        if (this.paused) this.#endWhenResumed = true;
+        else this.finish();
+      }, this.autoEndAfterMs);
+    }
+  }
+
+  cancel(): void {
+    this.fail("interrupted");
+  }
+
+  paused = false;
+  #endWhenResumed = false;
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    if (this.#endWhenResumed) {
+      this.#endWhenResumed = false;
+      this.finish();
+    }
+  }
+
+  finish(): void {
+    const utterance = this.current;
+    this.current = undefined;
+    utterance?.onend?.({});
+  }
+
+  fail(error: string): void {
+    const utterance = this.current;
+    this.current = undefined;
+    utterance?.onerror?.({ error });
+  }
+}
+
+/** Builds a mono 16-bit PCM WAV containing a sine tone (or silence). */
+export function createWavBlob(
+  { durationMs = 1000, sampleRate = 16000, frequency = 440 }: {
+    durationMs?: number;
+    sampleRate?: number;
+    frequency?: number;
+  } = {},
+): Blob {
+  const samples = new Float32Array(Math.round((durationMs / 1000) * sampleRate));
+  if (frequency) {
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.3;
+    }
+  }
+  return encodeWav(samples, sampleRate);
+}
+
+export class FakeRecording implements Recorder {
+  stopped = false;
+
+  constructor(private blob: Blob | null) {}
+
+  stop(): Promise<RecordingResult | null> {
+    this.stopped = true;
+    if (!this.blob) return Promise.resolve(null);
+    return Promise.resolve({
+      audioUrl: URL.createObjectURL(this.blob),
+      extension: "wav",
+    });
+  }
+}
+
+export class FakeRecorder implements RecorderBackend {
+  recordings: FakeRecording[] = [];
+  /** Returned by the next recordings, in order; the last one repeats. null records nothing. */
+  blobs: (Blob | null)[];
+  startDelayMs: number;
+  /** Makes start() reject, like getUserMedia after permission was revoked. */
+  startError: Error | undefined;
+
+  constructor(
+    { blobs = [createWavBlob()], startDelayMs = 0 }: {
+      blobs?: (Blob | null)[];
+      startDelayMs?: number;
+    } = {},
+  ) {
+    this.blobs = blobs;
+    this.startDelayMs = startDelayMs;
+  }
+
+  start(): Promise<Recorder> {
+    const error = this.startError;
+    if (error) {
+      return new Promise((_, reject) =>
+        setTimeout(() => reject(error), this.startDelayMs)
+      );
+    }
+    const blob = this.blobs.length > 1
+      ? this.blobs.shift()!
+      : this.blobs[0] ?? null;
+    const recording = new FakeRecording(blob);
+    this.recordings.push(recording);
+    return new Promise((resolve) =>
+      setTimeout(() => resolve(recording), this.startDelayMs)
+    );
+  }
+}
+
+export function createFakeBackends(
+  options: {
+    synthesis?: ConstructorParameters<typeof FakeSpeechSynthesis>[0];
+    recorder?: ConstructorParameters<typeof FakeRecorder>[0];
+  } = {},
+) {
+  const recognition = new FakeSpeechRecognition();
+  const synthesis = new FakeSpeechSynthesis(options.synthesis);
+  const recorder = new FakeRecorder(options.recorder);
+  const backends: SpeechBackends = {
+    createRecognition: () => recognition,
+    synthesis,
+    recorder,
+  };
+  return { backends, recognition, synthesis, recorder };
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { transcriptText } from "./history";
+import type { HistoryStore, HistoryTurn } from "./history";
+
+function download(text: string, type: string, extension: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `voice-assistant-history-${
+    new Date().toISOString().replace(/[:.]/g, "-")
+  }.${extension}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function button(text: string, title: string, onclick: () => void) {
+  const el = document.createElement("button");
+  el.textContent = text;
+  el.title = title;
+  el.onclick = (e) => {
+    e.preventDefault();
+    onclick();
+  };
+  return el;
+}
+
+/**
+ * Wires the history panel in index.html: search, replay of the recorded audio
+ * and the spoken reply, export/import and clear all. Renders lazily while
+ * the panel is open.
+ */
+export function setupHistoryView(
+  history: HistoryStore,
+  speak: (text: string) => void,
+  logError: (msg: string) => void,
+) {
+  const panel = document.getElementById("history-panel") as
+    | HTMLDetailsElement
+    | null;
+  const list = document.getElementById("history-list");
+  const search = document.getElementById(
+    "history-search",
+  ) as HTMLInputElement | null;
+  if (!panel || !list) return;
+  let audioUrls: string[] = [];
+  let shown: HistoryTurn[] = [];
+
+  const row = (turn: HistoryTurn) => {
+    const div = document.createElement("div");
+    div.className = "history-turn";
+    const header = document.createElement("div");
+    header.className = "history-meta";
+    header.textContent = [
+      new Date(turn.startedAt).toLocaleString(),
+      turn.wakePhrase === "default" ? "" : turn.wakePhrase,
+      turn.intent ? `answered locally (${turn.intent})` : turn.model,
+      turn.firstTokenMs === undefined
+        ? ""
+        : `first token ${turn.firstTokenMs}ms`,
+    ].filter(Boolean).join(" · ");
+
+    if (turn.audio) {
+      const url = URL.createObjectURL(turn.audio);
+      audioUrls.push(url);
+      header.append(
+        " ",
+        button("▶️", "Play recording", () =>
+          new Audio(url).play().catch((e) =>
+            logError(`Audio playback failed: ${e}`)
+          )),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.textContent = "download";
+      link.download = `command-audio-${turn.recordedAt}.${turn.audioExtension}`;
+      header.append(" ", link);
+    }
+    if (turn.response) {
+      header.append(" ", button("🔊", "Speak reply", () => speak(turn.response)));
+    }
+    header.append(
+      " ",
+      button("🗑", "Delete", () =>
+        history.delete(turn.id).catch((e) =>
+          logError(`Could not delete turn: ${e}`)
+        )),
+    );
+
+    const user = document.createElement("div");
+    user.textContent = `You: ${transcriptText(turn) || "(no transcript)"}`;
+    div.append(header, user);
+    if (turn.response) {
+      const reply = document.createElement("div");
+      reply.textContent = `Assistant: ${turn.response}` +
+        (turn.interrupted ? " (interrupted)" : "");
+      div.append(reply);
+    }
+    if (turn.error) {
+      const error = document.createElement("div");
+      error.style.color = "red";
+      error.textContent = turn.error;
+      div.append(error);
+    }
+    return div;
+  };
+
+  const render = async () => {
+    if (!panel.open) return;
+    try {
+      shown = await history.list(search?.value ?? "");
+    } catch (e) {
+      logError(`Could not load history: ${e}`);
+      return;
+    }
+    audioUrls.forEach((url) => URL.revokeObjectURL(url));
+    audioUrls = [];
+    list.replaceChildren(
+      ...(shown.length ? shown.map(row) : ["No turns yet."]),
+    );
+  };
+
+  history.onchange = render;
+  panel.addEventListener("toggle", render);
+  search?.addEventListener("input", render);
+
+  // Exports cover what the search currently shows.
+  document.getElementById("history-export-json")?.addEventListener(
+    "click",
+    async (e) => {
+      e.preventDefault();
+      download(await history.exportJson(shown), "application/json", "json");
+    },
+  );
+  document.getElementById("history-export-markdown")?.addEventListener(
+    "click",
+    async (e) => {
+      e.preventDefault();
+      download(await history.exportMarkdown(shown), "text/markdown", "md");
+    },
+  );
+  const importInput = document.getElementById(
+    "history-import",
+  ) as HTMLInputElement | null;
+  importInput?.addEventListener("change", async () => {
+    const file = importInput.files?.[0];
+    if (!file) return;
+    try {
+      const count = await history.import(await file.text());
+      if (count > history.limit) {
+        logError(
+          `Imported ${count} turns but only the newest ${history.limit} are kept.`,
+        );
+      }
+    } catch (e) {
+      logError(`Could not import ${file.name}: ${e}`);
+    }
+    importInput.value = "";
+  });
+  document.getElementById("history-clear")?.addEventListener(
+    "click",
+    (e) => {
+      e.preventDefault();
+      if (!confirm("Delete all saved turns and recordings?")) return;
+      history.clear().catch((e) => logError(`Could not clear history: ${e}`));
+    },
+  );
+}
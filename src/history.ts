@@ -0,0 +1,295 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { bytesToBase64 } from "./audio-preprocess";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+export interface TranscriptEntry {
+  text: string;
+  isFinal: boolean;
+  timestamp: number;
+}
+
+/** One command and the assistant's answer, as kept in IndexedDB. */
+export interface HistoryTurn {
+  id: string;
+  /** When the wake phrase or follow-up speech was heard. */
+  startedAt: number;
+  /** When recording stopped and the audio was handed to the model. */
+  recordedAt: number;
+  /** When the reply was spoken, or failed. */
+  finishedAt: number;
+  /** Wake phrase key: the persona name, or "default". */
+  wakePhrase: string;
+  model: string;
+  baseUrl: string;
+  /** The recording as captured, before preprocessing. */
+  audio: Blob | null;
+  audioExtension: string;
+  /** What the browser's speech recognition heard while recording. */
+  transcripts: TranscriptEntry[];
+  /** The text the model was sent instead of audio, if any. */
+  transcription?: string;
+  /** Set when a local intent answered instead of the model. */
+  intent?: string;
+  response: string;
+  /** Milliseconds after recordedAt. */
+  firstTokenMs?: number;
+  error?: string;
+  interrupted?: boolean;
+}
+
+/** Exported form: the audio inlined as a data URL. */
+type SerializedTurn = Omit<HistoryTurn, "audio"> & { audio: string | null };
+
+const DB_NAME = "voice-assistant-history";
+const STORE = "turns";
+const EXPORT_VERSION = 1;
+/** Markdown exports carry each turn's data in a comment so they import too. */
+const MARKDOWN_TURN = /<!-- voice-assistant-turn (.*?) -->/g;
+
+/**
+ * What the model was sent as text, else the final transcript text, or the
+ * last interim one if nothing was final.
+ */
+export function transcriptText(turn: HistoryTurn): string {
+  if (turn.transcription) return turn.transcription;
+  const final = turn.transcripts.filter((t) => t.isFinal).map((t) => t.text);
+  return final.length
+    ? final.join(" ").trim()
+    : turn.transcripts.at(-1)?.text.trim() ?? "";
+}
+
+async function serializeTurn(turn: HistoryTurn): Promise<SerializedTurn> {
+  const audio = turn.audio
+    ? `data:${turn.audio.type || "audio/wav"};base64,` +
+      bytesToBase64(new Uint8Array(await turn.audio.arrayBuffer()))
+    : null;
+  return { ...turn, audio };
+}
+
+async function deserializeTurn(data: any): Promise<HistoryTurn> {
+  if (
+    typeof data?.id !== "string" || typeof data.startedAt !== "number" ||
+    !Array.isArray(data.transcripts)
+  ) {
+    throw new Error("not a voice assistant turn");
+  }
+  const audio = typeof data.audio === "string" && data.audio.startsWith("data:")
+    ? await fetch(data.audio).then((res) => res.blob())
+    : null;
+  return { ...data, audio };
+}
+
+/**
+ * Turns kept across reloads, newest first, capped at `limit` turns (0 keeps
+ * none). Without IndexedDB they're kept in memory for the page's lifetime.
+ */
+export class HistoryStore {
+  #db: IDBDatabase | undefined;
+  #memory = new Map<string, HistoryTurn>();
+  #limit: number;
+
+  /** Called after turns were added, imported or deleted. */
+  onchange: () => void = () => {};
+
+  private constructor(limit: number) {
+    this.#limit = limit;
+  }
+
+  static async open(
+    limit = 200,
+    logError: (msg: string) => void = console.error,
+  ): Promise<HistoryStore> {
+    const store = new HistoryStore(limit);
+    try {
+      store.#db = await openDatabase(DB_NAME, 1, (db) => {
+        db.createObjectStore(STORE, { keyPath: "id" })
+          .createIndex("startedAt", "startedAt");
+      });
+    } catch (err) {
+      logError(`History won't survive a reload: ${err}`);
+    }
+    return store;
+  }
+
+  get limit(): number {
+    return this.#limit;
+  }
+
+  /** Lowering the limit deletes the oldest turns straight away. */
+  async setLimit(limit: number): Promise<void> {
+    this.#limit = limit;
+    if (await this.#prune()) this.onchange();
+  }
+
+  async add(turn: HistoryTurn): Promise<void> {
+    if (this.#limit <= 0) return;
+    await this.#put([turn]);
+    await this.#prune();
+    this.onchange();
+  }
+
+  /** Newest first; the query matches transcripts, responses, errors and models. */
+  async list(query = ""): Promise<HistoryTurn[]> {
+    const turns = this.#db
+      ? await requestToPromise(
+        this.#db.transaction(STORE).objectStore(STORE).getAll(),
+      ) as HistoryTurn[]
+      : [...this.#memory.values()];
+    turns.sort((a, b) => b.startedAt - a.startedAt);
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.length) return turns;
+    return turns.filter((turn) => {
+      const text = [
+        transcriptText(turn),
+        turn.response,
+        turn.error ?? "",
+        turn.model,
+        turn.wakePhrase,
+      ].join("\n").toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.#write((store) => store.delete(id), () => this.#memory.delete(id));
+    this.onchange();
+  }
+
+  async clear(): Promise<void> {
+    await this.#write((store) => store.clear(), () => this.#memory.clear());
+    this.onchange();
+  }
+
+  async exportJson(turns: HistoryTurn[]): Promise<string> {
+    return JSON.stringify(
+      {
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        turns: await Promise.all(turns.map(serializeTurn)),
+      },
+      null,
+      2,
+    );
+  }
+
+  /**
+   * Human-readable export for bug reports, with the audio as a data URL link.
+   * It can be imported again.
+   */
+  async exportMarkdown(turns: HistoryTurn[]): Promise<string> {
+    const sections = await Promise.all(turns.map(async (turn) => {
+      const { audio, ...data } = await serializeTurn(turn);
+      const lines = [
+        `## ${new Date(turn.startedAt).toLocaleString()}` +
+        (turn.wakePhrase === "default" ? "" : ` (${turn.wakePhrase})`),
+        "",
+        `<!-- voice-assistant-turn ${JSON.stringify(data).replaceAll("--", "\\u002d-")} -->`,
+        "",
+        `- Model: \`${turn.model}\` at ${turn.baseUrl}`,
+        `- Timings: recorded after ${turn.recordedAt - turn.startedAt}ms` +
+        (turn.firstTokenMs === undefined
+          ? ""
+          : `, first token after ${turn.firstTokenMs}ms`) +
+        `, done after ${turn.finishedAt - turn.recordedAt}ms`,
+      ];
+      if (audio) {
+        lines.push(`- Audio: [command.${turn.audioExtension}](${audio})`);
+      }
+      lines.push("", `**User:** ${transcriptText(turn) || "(no transcript)"}`);
+      if (turn.response) lines.push("", `**Assistant:** ${turn.response}`);
+      if (turn.interrupted) lines.push("", "_Interrupted._");
+      if (turn.error) lines.push("", `**Error:** ${turn.error}`);
+      return lines.join("\n");
+    }));
+    return [
+      "# Voice assistant history",
+      "",
+      `Exported ${new Date().toLocaleString()}.`,
+      ...sections.map((s) => `\n${s}`),
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * Imports a JSON or Markdown export. Turns already present are replaced.
+   * Returns how many turns were imported.
+   */
+  async import(text: string): Promise<number> {
+    let data: any[];
+    if (text.trimStart().startsWith("{")) {
+      const parsed = JSON.parse(text);
+      if (!Array.isArray(parsed?.turns)) throw new Error("No turns found.");
+      data = parsed.turns;
+    } else {
+      data = [...text.matchAll(MARKDOWN_TURN)].map((match) => {
+        const turn = JSON.parse(match[1]);
+        // The audio link follows the turn's comment.
+        const rest = text.slice(match.index! + match[0].length);
+        const next = rest.search(MARKDOWN_TURN);
+        const audio = (next < 0 ? rest : rest.slice(0, next))
+          .match(/^- Audio: \[[^\]]*\]\((data:[^)]+)\)/m);
+        return { ...turn, audio: audio?.[1] ?? null };
+      });
+      if (!data.length) throw new Error("No turns found.");
+    }
+    const turns = await Promise.all(data.map(deserializeTurn));
+    await this.#put(turns);
+    await this.#prune();
+    this.onchange();
+    return turns.length;
+  }
+
+  async #put(turns: HistoryTurn[]) {
+    await this.#write(
+      (store) => turns.forEach((turn) => store.put(turn)),
+      () => turns.forEach((turn) => this.#memory.set(turn.id, turn)),
+    );
+  }
+
+  /** Deletes the oldest turns over the limit; returns whether any were. */
+  async #prune(): Promise<boolean> {
+    const limit = Math.max(0, this.#limit);
+    if (!this.#db) {
+      const excess = [...this.#memory.values()]
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(limit);
+      excess.forEach((turn) => this.#memory.delete(turn.id));
+      return excess.length > 0;
+    }
+    const tx = this.#db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    let excess = await requestToPromise(store.count()) - limit;
+    if (excess <= 0) return false;
+    // Oldest first.
+    const cursors = store.index("startedAt").openCursor();
+    cursors.onsuccess = () => {
+      const cursor = cursors.result;
+      if (!cursor || excess-- <= 0) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+    return true;
+  }
+
+  async #write(
+    change: (store: IDBObjectStore) => void,
+    fallback: () => void,
+  ) {
+    if (!this.#db) {
+      fallback();
+      return;
+    }
+    const tx = this.#db.transaction(STORE, "readwrite");
+    change(tx.objectStore(STORE));
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/** A transcript that matched an intent, see CommandEvent.intent. */
+export interface IntentMatch {
+  intent: string;
+  /** Values captured by {slot} rules or named regex groups. */
+  slots: Record<string, string>;
+  transcript: string;
+}
+
+export interface Intent {
+  name: string;
+  /**
+   * Each must match the whole utterance, ignoring case and punctuation.
+   * Strings are rules made of words, (one|other) alternatives, [optional]
+   * parts and {slot} captures, e.g. "[please] set volume to {level}".
+   * Regexes see the lowercased transcript; named groups become slots.
+   */
+  patterns: (string | RegExp)[];
+  /** Runs instead of the model. Returned text is spoken as the reply. */
+  handler: (match: IntentMatch) => string | void | Promise<string | void>;
+}
+
+/** Turns a rule into an anchored regex. */
+export function compileRule(rule: string): RegExp {
+  const source = rule.trim().toLowerCase()
+    .replace(/[.*+?^$\\]/g, "\\$&")
+    .replace(/\(/g, "(?:")
+    .replace(/\[/g, "(?:")
+    .replace(/\]/g, ")?")
+    .replace(/\{(\w+)\}/g, "(?<$1>.+?)")
+    .replace(/\s+/g, "\\s*");
+  return new RegExp(`^\\s*${source}\\s*$`);
+}
+
+/** Lowercase words without punctuation, as rules see them. */
+export function normalizeUtterance(transcript: string): string {
+  return transcript.toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Intents handled without the model, tried in the order registered. */
+export class IntentRegistry {
+  #intents = new Map<string, { intent: Intent; patterns: RegExp[] }>();
+
+  constructor(intents: Intent[] = []) {
+    for (const intent of intents) this.register(intent);
+  }
+
+  /** Replaces an intent of the same name, keeping its place. */
+  register(intent: Intent) {
+    this.#intents.set(intent.name, {
+      intent,
+      patterns: intent.patterns.map((p) =>
+        typeof p === "string" ? compileRule(p) : p
+      ),
+    });
+  }
+
+  unregister(name: string) {
+    this.#intents.delete(name);
+  }
+
+  get size(): number {
+    return this.#intents.size;
+  }
+
+  match(transcript: string): IntentMatch | undefined {
+    const text = normalizeUtterance(transcript);
+    if (!text) return;
+    for (const { intent, patterns } of this.#intents.values()) {
+      for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (!match) continue;
+        const slots: Record<string, string> = {};
+        for (const [name, value] of Object.entries(match.groups ?? {})) {
+          if (value !== undefined) slots[name] = value.trim();
+        }
+        return { intent: intent.name, slots, transcript };
+      }
+    }
+  }
+
+  /**
+   * Runs the matched intent's handler and returns what to say. Failures are
+   * returned as an apology rather than thrown.
+   */
+  async run(
+    match: IntentMatch,
+    logError: (msg: string) => void = console.error,
+  ): Promise<string | void> {
+    const entry = this.#intents.get(match.intent);
+    if (!entry) return;
+    try {
+      return await entry.intent.handler(match);
+    } catch (err) {
+      logError(`Intent ${match.intent} failed: ${err}`);
+      return "Sorry, that didn't work.";
+    }
+  }
+}
+
+/** What the built-in intents act on. */
+export interface IntentActions {
+  mute(): void;
+  /** The last reply spoken, if any. */
+  lastReply(): string | undefined;
+}
+
+/** Cancel, mute, repeat and the time: common enough to skip the model. */
+export function builtinIntents(actions: IntentActions): Intent[] {
+  return [
+    {
+      name: "cancel",
+      patterns: [
+        "[(oh|no)] [please] (stop|cancel|never mind|nevermind|forget (it|that)|nothing) [(please|thanks|thank you)]",
+      ],
+      handler: () => {},
+    },
+    {
+      name: "mute",
+      patterns: [
+        "[please] (mute|stop listening|be quiet|go to sleep) [please]",
+      ],
+      handler: () => actions.mute(),
+    },
+    {
+      name: "repeat",
+      patterns: [
+        "[can you] [please] (repeat [(that|it|yourself)]|say (that|it) again|what did you (say|just say)) [please]",
+      ],
+      handler: () => actions.lastReply() ?? "I haven't said anything yet.",
+    },
+    {
+      name: "time",
+      patterns: ["what time is it [(now|right now)]", "what's the time [now]"],
+      handler: () =>
+        `It's ${
+          new Date().toLocaleTimeString(undefined, {
+            hour: "numeric",
+            minute: "2-digit",
+          })
+        }.`,
+    },
+  ];
+}
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { VoiceInfo } from "./web-speech";
+
+/** "pt" for "pt-BR" and Android's "pt_BR". */
+export function primaryLanguage(tag: string): string {
+  return tag.split(/[-_]/)[0].toLowerCase();
+}
+
+export function sameLanguage(a: string, b: string): boolean {
+  return Boolean(a && b) && primaryLanguage(a) === primaryLanguage(b);
+}
+
+/** Scripts only one of the languages we tell apart is written in. */
+const SCRIPTS: [RegExp, string][] = [
+  // Before Han: Japanese mixes kanji with kana.
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, "ja"],
+  [/\p{Script=Hangul}/u, "ko"],
+  [/\p{Script=Han}/u, "zh"],
+  [/\p{Script=Cyrillic}/u, "ru"],
+  [/\p{Script=Greek}/u, "el"],
+  [/\p{Script=Hebrew}/u, "he"],
+  [/\p{Script=Arabic}/u, "ar"],
+  [/\p{Script=Devanagari}/u, "hi"],
+  [/\p{Script=Thai}/u, "th"],
+];
+
+/** Common short words, which give away most sentences' language. */
+const WORDS: Record<string, string[]> = {
+  en: ("the and is are was you it of to that this with for have not what " +
+    "your it's i'm there be will can do at").split(" "),
+  de: ("der die das und ist nicht ich du sie es ein eine mit zu auf für " +
+    "sind wie auch noch heute uhr wird gibt den dem im").split(" "),
+  fr: ("le la les et est une un des je vous il elle pas que qui pour dans " +
+    "sur avec c'est ce sont du au").split(" "),
+  es: ("el la los las y es un una que de en por para con no está son hoy " +
+    "hay muy pero lo del al se").split(" "),
+  it: ("il lo la gli le e è un una che di per con non sono sei della del " +
+    "oggi ci questo anche ma").split(" "),
+  pt: ("o a os as e é um uma que de não para com em do da você está são " +
+    "hoje mas isso").split(" "),
+  nl: ("de het een en is niet ik je van dat die voor met op zijn wat er " +
+    "ook maar vandaag").split(" "),
+  sv: ("och är det en ett att inte jag du som på med för har till av den " +
+    "idag men vad").split(" "),
+  pl: ("i w na nie jest to że się z do co jak tak ale są dzisiaj jestem " +
+    "mam").split(" "),
+};
+
+/** Letters that count like another common word. */
+const LETTERS: [RegExp, string][] = [
+  [/[ßü]/, "de"],
+  [/[ñ¿¡]/, "es"],
+  [/[ãõ]/, "pt"],
+  [/[œêë]/, "fr"],
+  [/[ąęłśźżńć]/, "pl"],
+  [/å/, "sv"],
+];
+
+/**
+ * A guess at the language of a sentence, as a primary language subtag like
+ * "de", or undefined if it's too short or mixed to tell. Knows a few
+ * scripts and the most common languages written in Latin letters.
+ */
+export function detectLanguage(text: string): string | undefined {
+  const letters = [...text].filter((c) => /\p{L}/u.test(c));
+  if (!letters.length) return;
+  const scripts = new Map<string, number>();
+  let latin = 0;
+  for (const c of letters) {
+    const script = SCRIPTS.find(([regex]) => regex.test(c));
+    if (script) scripts.set(script[1], (scripts.get(script[1]) ?? 0) + 1);
+    else if (/\p{Script=Latin}/u.test(c)) latin++;
+  }
+  // Ukrainian letters; the rest of Cyrillic is read as Russian.
+  if (scripts.has("ru") && /[іїєґ]/iu.test(text)) {
+    scripts.set("uk", scripts.get("ru")!);
+    scripts.delete("ru");
+  }
+  // Kana anywhere makes Han characters Japanese.
+  if (scripts.has("ja") && scripts.has("zh")) {
+    scripts.set("ja", scripts.get("ja")! + scripts.get("zh")!);
+    scripts.delete("zh");
+  }
+  const [script, count = 0] = [...scripts].sort((a, b) => b[1] - a[1])[0] ??
+    [];
+  if (script && count >= latin) return script;
+
+  const scores = new Map<string, number>();
+  const add = (lang: string) => scores.set(lang, (scores.get(lang) ?? 0) + 1);
+  const words = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean);
+  for (const word of words) {
+    for (const [lang, list] of Object.entries(WORDS)) {
+      if (list.includes(word)) add(lang);
+    }
+    for (const [regex, lang] of LETTERS) {
+      if (regex.test(word)) add(lang);
+    }
+  }
+  const [best, second] = [...scores].sort((a, b) => b[1] - a[1]);
+  if (!best) return;
+  const runnerUp = second?.[1] ?? 0;
+  // One telling word decides short sentences; longer ones need a margin.
+  if (best[1] >= 2 ? best[1] >= 1.5 * runnerUp : !runnerUp && words.length <= 4) {
+    return best[0];
+  }
+}
+
+/**
+ * The voice to read text in the given language with: one for the exact tag,
+ * then the browser's default voice if it speaks the language, then any that
+ * does. Undefined if none does.
+ */
+export function voiceForLanguage(
+  voices: VoiceInfo[],
+  lang: string,
+): VoiceInfo | undefined {
+  const matching = voices.filter((v) => sameLanguage(v.lang, lang));
+  const tag = lang.replace("_", "-").toLowerCase();
+  return matching.find((v) => v.lang.replace("_", "-").toLowerCase() === tag) ??
+    matching.find((v) => v.default) ?? matching[0];
+}
+
+/** "German" for "de"; the tag itself if Intl doesn't know it. */
+export function languageName(lang: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(lang) ??
+      lang;
+  } catch {
+    return lang;
+  }
+}
+
+/** What the system prompt says about the reply's language. */
+export function replyLanguageInstruction(replyLanguage: string): string {
+  return replyLanguage === "auto"
+    ? "Reply in the language the user speaks."
+    : `Reply in ${languageName(replyLanguage)}.`;
+}
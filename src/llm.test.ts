@@ -0,0 +1,276 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { APIConnectionError, APIError } from "openai";
+import { classifyLlmError, LlmError, streamCompletion } from "./llm";
+import type { LlmEndpoint, LlmRequestOptions } from "./llm";
+
+/**
+ * What the stubbed client does for each request, in order: throw an error,
+ * or stream the chunks, waiting delayMs before the first one.
+ */
+type Reply = Error | { chunks: any[]; delayMs?: number };
+
+const requests: { model: string; signal: AbortSignal }[] = [];
+let replies: Reply[] = [];
+
+vi.mock("openai", async (importOriginal) => {
+  const openai = await importOriginal<typeof import("openai")>();
+  class StubOpenAI {
+    chat = {
+      completions: {
+        create: async (body: any, { signal }: { signal: AbortSignal }) => {
+          requests.push({ model: body.model, signal });
+          const reply = replies.shift() ?? new Error("No reply scripted.");
+          if (reply instanceof Error) throw reply;
+          return (async function* () {
+            if (reply.delayMs) {
+              await new Promise((resolve) => {
+                const timer = setTimeout(resolve, reply.delayMs);
+                signal.addEventListener("abort", () => {
+                  clearTimeout(timer);
+                  resolve(undefined);
+                });
+              });
+            }
+            // Like the SDK, an aborted stream just ends.
+            for (const chunk of reply.chunks) {
+              if (signal.aborted) return;
+              yield chunk;
+            }
+          })();
+        },
+      },
+    };
+  }
+  return { ...openai, default: StubOpenAI };
+});
+
+const chunk = (content: string) => ({ choices: [{ delta: { content } }] });
+const text = (...parts: string[]) => ({ chunks: parts.map(chunk) });
+
+const endpoint = (model: string): LlmEndpoint => ({
+  apiKey: "key",
+  baseUrl: "https://llm.example/v1",
+  model,
+});
+
+const apiError = (status: number, body?: object, headers?: HeadersInit) =>
+  APIError.generate(status, body, undefined, new Headers(headers));
+
+async function answer(
+  endpoints: LlmEndpoint[],
+  options: LlmRequestOptions = {},
+) {
+  const stream = await streamCompletion(endpoints, { messages: [] }, {
+    backoffMs: 100,
+    log: () => {},
+    logError: () => {},
+    ...options,
+  });
+  let content = "";
+  for await (const c of stream.chunks) content += c.choices[0].delta.content;
+  return { model: stream.endpoint.model, index: stream.index, content };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  requests.length = 0;
+  replies = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("classifyLlmError", () => {
+  it.each([
+    [apiError(401), "unauthorized", false],
+    [apiError(403), "unauthorized", false],
+    [apiError(402), "quota", false],
+    [apiError(429, { error: { code: "insufficient_quota" } }), "quota", false],
+    [apiError(400, { error: { message: "Not enough credits" } }), "quota", false],
+    [apiError(429), "rate_limited", true],
+    [apiError(404), "model_not_found", false],
+    [apiError(408), "timeout", false],
+    [apiError(500), "server", true],
+    [apiError(503), "server", true],
+    [
+      apiError(400, { error: { message: "input_audio is not supported" } }),
+      "unsupported_audio",
+      false,
+    ],
+    [
+      apiError(400, { error: { message: "No audio modality here" } }),
+      "unsupported_audio",
+      false,
+    ],
+    [apiError(422), "bad_request", false],
+    [new APIConnectionError({ message: "Connection error." }), "network", true],
+    [new TypeError("Failed to fetch"), "network", true],
+    [new Error("Something odd"), "unknown", false],
+  ])("sorts %s", (err, kind, retryable) => {
+    const error = classifyLlmError(err, endpoint("m"));
+    expect(error.kind).toBe(kind);
+    expect(error.retryable).toBe(retryable);
+    expect(error.cause).toBe(err);
+    expect(error.spokenMessage).toBeTruthy();
+  });
+
+  it("takes the status from an error inside a stream", () => {
+    const body = { code: 502, message: "Bad gateway" };
+    const err = new APIError(undefined, body, "Bad gateway", undefined);
+    expect(classifyLlmError(err))
+      .toMatchObject({ kind: "server", status: 502 });
+  });
+
+  it("reads Retry-After", () => {
+    expect(classifyLlmError(apiError(429, {}, { "retry-after": "3" })))
+      .toMatchObject({ kind: "rate_limited", retryAfter: 3 });
+  });
+
+  it("puts the model and status in the details", () => {
+    expect(classifyLlmError(apiError(500), endpoint("gpt")).details)
+      .toMatch(/^LLM server from gpt at https:\/\/llm\.example\/v1 \(HTTP 500\)/);
+  });
+
+  it("keeps an LlmError as it is", () => {
+    const error = new LlmError("timeout", "Too slow.");
+    expect(classifyLlmError(error)).toBe(error);
+  });
+});
+
+describe("streamCompletion", () => {
+  it("streams the answer", async () => {
+    replies = [text("Hello", " there.")];
+    expect(await answer([endpoint("a")])).toEqual({
+      model: "a",
+      index: 0,
+      content: "Hello there.",
+    });
+  });
+
+  it("retries rate limits and server errors with backoff", async () => {
+    replies = [apiError(429), apiError(503), text("OK")];
+    const done = answer([endpoint("a")]);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(requests).toHaveLength(2);
+    // Doubled.
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await done).toMatchObject({ model: "a", content: "OK" });
+    expect(requests).toHaveLength(3);
+  });
+
+  it("waits as long as Retry-After says", async () => {
+    replies = [apiError(429, {}, { "retry-after": "2" }), text("OK")];
+    const done = answer([endpoint("a")]);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await done).toMatchObject({ content: "OK" });
+  });
+
+  it("falls back to the next model when retries run out", async () => {
+    replies = [apiError(500), apiError(500), text("From b")];
+    const done = answer([endpoint("a"), endpoint("b")], { maxRetries: 1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await done).toEqual({ model: "b", index: 1, content: "From b" });
+    expect(requests.map((r) => r.model)).toEqual(["a", "a", "b"]);
+  });
+
+  it("falls back straight away for errors retrying won't fix", async () => {
+    replies = [apiError(404), text("From b")];
+    expect(await answer([endpoint("a"), endpoint("b")]))
+      .toMatchObject({ model: "b" });
+    expect(requests.map((r) => r.model)).toEqual(["a", "b"]);
+  });
+
+  it("skips models without an API key", async () => {
+    replies = [text("From b")];
+    const noKey = { ...endpoint("a"), apiKey: "" };
+    expect(await answer([noKey, endpoint("b")])).toMatchObject({ model: "b" });
+  });
+
+  it("throws the first model's error when they all fail", async () => {
+    replies = [apiError(401), apiError(404)];
+    const error = await answer([endpoint("a"), endpoint("b")]).catch((e) => e);
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error).toMatchObject({
+      kind: "unauthorized",
+      endpoint: endpoint("a"),
+    });
+  });
+
+  it("tries the next model after a first-token timeout", async () => {
+    replies = [{ ...text("Late"), delayMs: 20000 }, text("From b")];
+    const done = answer([endpoint("a"), endpoint("b")], {
+      firstTokenTimeoutMs: 1000,
+      maxRetries: 0,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await done).toMatchObject({ model: "b", content: "From b" });
+    expect(requests[0].signal.aborted).toBe(true);
+  });
+
+  it("reports a timeout when nobody answers in time", async () => {
+    replies = [{ ...text("Late"), delayMs: 20000 }];
+    const done = answer([endpoint("a")], { firstTokenTimeoutMs: 1000 })
+      .catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await done).toMatchObject({
+      kind: "timeout",
+      message: "No first token after 1000ms.",
+    });
+  });
+
+  it("times out an answer that takes too long in total", async () => {
+    replies = [{ chunks: [chunk("Start"), chunk(" and more")] }];
+    const stream = await streamCompletion([endpoint("a")], { messages: [] }, {
+      totalTimeoutMs: 5000,
+    });
+    const iterator = stream.chunks[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toEqual(chunk("Start"));
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(iterator.next()).rejects.toMatchObject({ kind: "timeout" });
+  });
+
+  it("stops without retrying when the signal is aborted", async () => {
+    replies = [apiError(503), text("Never")];
+    const controller = new AbortController();
+    const done = answer([endpoint("a")], { signal: controller.signal })
+      .catch((e) => e);
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort(new Error("Cancelled."));
+    expect(await done).toMatchObject({ message: "Cancelled." });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("doesn't keep timers for a stream that's never read", async () => {
+    replies = [text("Unread", " answer")];
+    const controller = new AbortController();
+    await streamCompletion([endpoint("a")], { messages: [] }, {
+      signal: controller.signal,
+    });
+    expect(vi.getTimerCount()).toBe(1);
+    controller.abort();
+    expect(vi.getTimerCount()).toBe(0);
+    expect(requests[0].signal.aborted).toBe(true);
+
+    replies = [text("Unread")];
+    await streamCompletion([endpoint("a")], { messages: [] }, {
+      totalTimeoutMs: 5000,
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(vi.getTimerCount()).toBe(0);
+    expect(requests[1].signal.aborted).toBe(true);
+  });
+});
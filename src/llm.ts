@@ -0,0 +1,321 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import OpenAI, { APIConnectionError, APIError } from "openai";
+import type { ChatCompletionCreateParamsStreaming } from "openai/resources/chat/completions";
+
+/** One model to try, in fallback order. */
+export interface LlmEndpoint {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+export type LlmErrorKind =
+  | "missing_key"
+  | "unauthorized"
+  | "quota"
+  | "rate_limited"
+  | "server"
+  | "offline"
+  | "network"
+  | "timeout"
+  | "unsupported_audio"
+  | "model_not_found"
+  | "bad_request"
+  | "unknown";
+
+/** Said to the user; the details go to the log. */
+const SPOKEN: Record<LlmErrorKind, string> = {
+  missing_key: "I need an API key before I can answer. Please add one on the page.",
+  unauthorized: "The API key was rejected. Please check it in the settings.",
+  quota: "The AI service account is out of credits or quota.",
+  rate_limited: "The AI service is busy right now. Please try again in a moment.",
+  server: "The AI service is having problems. Please try again later.",
+  offline: "I'm offline, so I can't reach the AI service.",
+  network: "I couldn't reach the AI service.",
+  timeout: "The AI service took too long to answer.",
+  unsupported_audio: "The selected model can't listen to audio. Please pick another model.",
+  model_not_found: "The selected model doesn't exist at this service.",
+  bad_request: "The AI service didn't accept the request.",
+  unknown: "Something went wrong while getting an answer.",
+};
+
+/** Worth retrying at the same endpoint after a pause. */
+const RETRYABLE = new Set<LlmErrorKind>(["rate_limited", "server", "network"]);
+
+export class LlmError extends Error {
+  constructor(
+    readonly kind: LlmErrorKind,
+    message: string,
+    readonly endpoint?: LlmEndpoint,
+    readonly status?: number,
+    /** Seconds the server asked us to wait, from Retry-After. */
+    readonly retryAfter?: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "LlmError";
+  }
+
+  get spokenMessage(): string {
+    return SPOKEN[this.kind];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.has(this.kind);
+  }
+
+  /** Kind, status, endpoint and the server's message, for the log. */
+  get details(): string {
+    const where = this.endpoint
+      ? ` from ${this.endpoint.model} at ${this.endpoint.baseUrl}`
+      : "";
+    const status = this.status ? ` (HTTP ${this.status})` : "";
+    return `LLM ${this.kind}${where}${status}: ${this.message}`;
+  }
+}
+
+/** Sorts a failed request into an LlmErrorKind. */
+export function classifyLlmError(
+  err: unknown,
+  endpoint?: LlmEndpoint,
+): LlmError {
+  if (err instanceof LlmError) return err;
+  const message = (err as any)?.message ?? String(err);
+  const make = (kind: LlmErrorKind, status?: number, retryAfter?: number) =>
+    new LlmError(kind, message, endpoint, status, retryAfter, { cause: err });
+
+  if (err instanceof APIConnectionError) {
+    return make(
+      typeof navigator !== "undefined" && navigator.onLine === false
+        ? "offline"
+        : "network",
+    );
+  }
+  if (!(err instanceof APIError)) {
+    return make(err instanceof TypeError ? "network" : "unknown");
+  }
+  // Errors inside a stream carry the status in the body, if at all.
+  const body = err.error as any;
+  const status = err.status ?? (Number(body?.code) || undefined);
+  const code = String(err.code ?? body?.code ?? "");
+  const retryAfter = Number(err.headers?.get("retry-after")) || undefined;
+  const text = `${message} ${JSON.stringify(body ?? "")}`.toLowerCase();
+
+  if (/input[_ ]?audio|audio input|modalit/.test(text)) {
+    return make("unsupported_audio", status);
+  }
+  if (status === 401) return make("unauthorized", status);
+  if (status === 402 || code === "insufficient_quota" || /credit/.test(text)) {
+    return make("quota", status);
+  }
+  if (status === 429) return make("rate_limited", status, retryAfter);
+  if (status === 404) return make("model_not_found", status);
+  if (status === 408) return make("timeout", status);
+  if (status !== undefined && status >= 500) {
+    return make("server", status, retryAfter);
+  }
+  if (status === 403) return make("unauthorized", status);
+  if (status !== undefined && status >= 400) return make("bad_request", status);
+  return make("unknown", status);
+}
+
+export interface LlmRequestOptions {
+  /** Cancels everything, e.g. the turn's signal. Not retried. */
+  signal?: AbortSignal;
+  /** Until the first content or tool call; the next endpoint is tried after. */
+  firstTokenTimeoutMs?: number;
+  /** For the whole streamed answer from one endpoint. */
+  totalTimeoutMs?: number;
+  /** Extra attempts per endpoint for 429s, 5xx and network errors. */
+  maxRetries?: number;
+  /** Doubles after each retry unless the server sends Retry-After. */
+  backoffMs?: number;
+  log?: (msg: string) => void;
+  logError?: (msg: string) => void;
+}
+
+export interface LlmStream {
+  /** The endpoint that answered. */
+  endpoint: LlmEndpoint;
+  /** Its position in the fallback list. */
+  index: number;
+  chunks: AsyncIterable<any>;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+function hasOutput(chunk: any): boolean {
+  const delta = chunk?.choices?.[0]?.delta;
+  return Boolean(delta?.content || delta?.tool_calls?.length);
+}
+
+/** Starts one streaming request and waits for its first token. */
+async function attempt(
+  endpoint: LlmEndpoint,
+  body: Omit<ChatCompletionCreateParamsStreaming, "model" | "stream">,
+  signal: AbortSignal | undefined,
+  firstTokenTimeoutMs: number,
+  totalTimeoutMs: number,
+): Promise<AsyncIterable<any>> {
+  if (!endpoint.apiKey) {
+    throw new LlmError("missing_key", "LLM API key is missing.", endpoint);
+  }
+  const controller = new AbortController();
+  let timedOut: string | undefined;
+  // Each of these also cleans up, in case the stream is never read.
+  const abort = () => {
+    controller.abort(signal?.reason);
+    cleanup();
+  };
+  signal?.addEventListener("abort", abort, { once: true });
+  const firstToken = setTimeout(() => {
+    timedOut = `No first token after ${firstTokenTimeoutMs}ms.`;
+    controller.abort();
+  }, firstTokenTimeoutMs);
+  const total = setTimeout(() => {
+    timedOut = `Answer not finished after ${totalTimeoutMs}ms.`;
+    controller.abort();
+    cleanup();
+  }, totalTimeoutMs);
+  const cleanup = () => {
+    clearTimeout(firstToken);
+    clearTimeout(total);
+    signal?.removeEventListener("abort", abort);
+  };
+  // The SDK ends an aborted stream quietly instead of throwing.
+  const checkAborted = () => {
+    if (controller.signal.aborted) {
+      throw signal?.aborted ? signal.reason : new Error("Request aborted.");
+    }
+  };
+  const fail = (err: unknown) => {
+    if (signal?.aborted) return err;
+    if (timedOut) return new LlmError("timeout", timedOut, endpoint);
+    return classifyLlmError(err, endpoint);
+  };
+
+  let iterator: AsyncIterator<any>;
+  const buffered: any[] = [];
+  let ended = false;
+  try {
+    const openai = new OpenAI({
+      apiKey: endpoint.apiKey,
+      baseURL: endpoint.baseUrl,
+      dangerouslyAllowBrowser: true,
+      // Retries and timeouts are ours.
+      maxRetries: 0,
+    });
+    const stream = await openai.chat.completions.create(
+      { ...body, model: endpoint.model, stream: true },
+      { signal: controller.signal },
+    );
+    iterator = stream[Symbol.asyncIterator]();
+    while (true) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        ended = true;
+        break;
+      }
+      buffered.push(value);
+      if (hasOutput(value)) break;
+    }
+    checkAborted();
+    clearTimeout(firstToken);
+  } catch (err) {
+    cleanup();
+    throw fail(err);
+  }
+
+  return (async function* () {
+    try {
+      yield* buffered;
+      if (ended) return;
+      while (true) {
+        const { value, done } = await iterator.next();
+        if (done) break;
+        yield value;
+      }
+      checkAborted();
+    } catch (err) {
+      throw fail(err);
+    } finally {
+      cleanup();
+    }
+  })();
+}
+
+/**
+ * Streams a chat completion from the first endpoint that answers. Each
+ * endpoint gets retries with backoff for rate limits, server and network
+ * errors; any other failure, or running out of retries, moves on to the
+ * next one. Failures after the first token aren't retried since part of the
+ * answer may already have been spoken. Throws the first endpoint's error as
+ * an LlmError if they all fail. A stream that isn't read to the end is
+ * dropped once the signal is aborted or totalTimeoutMs has passed.
+ */
+export async function streamCompletion(
+  endpoints: LlmEndpoint[],
+  body: Omit<ChatCompletionCreateParamsStreaming, "model" | "stream">,
+  {
+    signal,
+    firstTokenTimeoutMs = 15000,
+    totalTimeoutMs = 60000,
+    maxRetries = 2,
+    backoffMs = 500,
+    log = console.log,
+    logError = console.error,
+  }: LlmRequestOptions = {},
+): Promise<LlmStream> {
+  const errors: LlmError[] = [];
+  for (const [index, endpoint] of endpoints.entries()) {
+    for (let retry = 0;; retry++) {
+      try {
+        const chunks = await attempt(
+          endpoint,
+          body,
+          signal,
+          firstTokenTimeoutMs,
+          totalTimeoutMs,
+        );
+        if (index > 0 || retry > 0) {
+          log(`LLM answered by ${endpoint.model} at ${endpoint.baseUrl}.`);
+        }
+        return { endpoint, index, chunks };
+      } catch (err) {
+        if (signal?.aborted || !(err instanceof LlmError)) throw err;
+        logError(err.details);
+        if (!err.retryable || retry >= maxRetries) {
+          errors.push(err);
+          break;
+        }
+        const delay = err.retryAfter
+          ? Math.min(err.retryAfter * 1000, 10000)
+          : backoffMs * 2 ** retry;
+        log(`Retrying ${endpoint.model} in ${delay}ms.`);
+        await sleep(delay, signal);
+      }
+    }
+  }
+  throw errors[0] ??
+    new LlmError("unknown", "No LLM endpoints are configured.");
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { MicrophoneOptions, VoiceClient } from "./web-speech";
+
+const STORAGE_KEY = "voice-assistant.microphone";
+
+export function loadMicrophoneOptions(): MicrophoneOptions {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveMicrophoneOptions(options: MicrophoneOptions) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+}
+
+/**
+ * Wires the microphone picker and constraint checkboxes in index.html to the
+ * client. Returns a function that refreshes the device list, which only has
+ * labels once microphone permission was granted.
+ */
+export function setupMicrophoneSettings(
+  getClient: () => VoiceClient,
+  logError: (msg: string) => void,
+): () => Promise<void> {
+  const deviceSelect = document.getElementById(
+    "mic-select",
+  ) as HTMLSelectElement | null;
+  const rateSelect = document.getElementById(
+    "mic-sample-rate",
+  ) as HTMLSelectElement | null;
+  const checkboxes = {
+    echoCancellation: document.getElementById("mic-echo-cancellation"),
+    noiseSuppression: document.getElementById("mic-noise-suppression"),
+    autoGainControl: document.getElementById("mic-auto-gain"),
+  } as Record<string, HTMLInputElement | null>;
+
+  const saved = loadMicrophoneOptions();
+  for (const [key, checkbox] of Object.entries(checkboxes)) {
+    const value = saved[key as keyof MicrophoneOptions];
+    if (checkbox && typeof value === "boolean") checkbox.checked = value;
+  }
+  if (rateSelect && saved.sampleRate) {
+    rateSelect.value = String(saved.sampleRate);
+  }
+
+  const apply = () => {
+    const options: MicrophoneOptions = {
+      deviceId: deviceSelect?.value || undefined,
+      sampleRate: Number(rateSelect?.value) || undefined,
+    };
+    for (const [key, checkbox] of Object.entries(checkboxes)) {
+      if (checkbox) {
+        (options as Record<string, unknown>)[key] = checkbox.checked;
+      }
+    }
+    saveMicrophoneOptions(options);
+    getClient().setMicrophone(options).catch((e) =>
+      logError(`Could not apply microphone settings: ${e}`)
+    );
+  };
+
+  deviceSelect?.addEventListener("change", apply);
+  rateSelect?.addEventListener("change", apply);
+  for (const checkbox of Object.values(checkboxes)) {
+    checkbox?.addEventListener("change", apply);
+  }
+
+  const refreshDevices = async () => {
+    if (!deviceSelect) return;
+    const devices = (await navigator.mediaDevices.enumerateDevices())
+      .filter((d) => d.kind === "audioinput");
+    const selected = deviceSelect.value || saved.deviceId || "";
+    deviceSelect.replaceChildren(new Option("Default microphone", ""));
+    devices.forEach((d, i) => {
+      if (d.deviceId === "default" || !d.deviceId) return;
+      deviceSelect.append(
+        new Option(d.label || `Microphone ${i + 1}`, d.deviceId),
+      );
+    });
+    deviceSelect.value = devices.some((d) => d.deviceId === selected)
+      ? selected
+      : "";
+  };
+  navigator.mediaDevices?.addEventListener("devicechange", refreshDevices);
+  refreshDevices().catch((e) => logError(`Could not list microphones: ${e}`));
+  return refreshDevices;
+}
+
+/**
+ * Draws the live input waveform as a ring around the mic icon, thickening
+ * with the signal level. Runs until the page goes away.
+ */
+export function startLevelMeter(
+  canvas: HTMLCanvasElement,
+  getClient: () => VoiceClient,
+  colorSource: HTMLElement,
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  let samples = new Float32Array(0);
+
+  const draw = () => {
+    requestAnimationFrame(draw);
+    const { clientWidth: w, clientHeight: h } = canvas;
+    if (canvas.width !== w * devicePixelRatio) {
+      canvas.width = w * devicePixelRatio;
+      canvas.height = h * devicePixelRatio;
+    }
+    ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+
+    const client = getClient();
+    const analyser = client.inputAnalyser;
+    if (!analyser || client.isMuted) return;
+    if (samples.length !== analyser.fftSize) {
+      samples = new Float32Array(analyser.fftSize);
+    }
+    analyser.getFloatTimeDomainData(samples);
+
+    let sum = 0;
+    for (const v of samples) sum += v * v;
+    const rms = Math.sqrt(sum / samples.length);
+
+    const radius = Math.min(w, h) * 0.45;
+    const amplitude = Math.min(w, h) * 0.08;
+    ctx.strokeStyle = getComputedStyle(colorSource).color;
+    ctx.lineWidth = 1 + Math.min(rms * 40, 6);
+    ctx.beginPath();
+    const points = 128;
+    for (let i = 0; i <= points; i++) {
+      const angle = (i / points) * 2 * Math.PI;
+      const sample = samples[Math.floor((i % points) * samples.length / points)];
+      const r = radius + sample * amplitude;
+      const x = w / 2 + r * Math.cos(angle);
+      const y = h / 2 + r * Math.sin(angle);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  };
+  requestAnimationFrame(draw);
+}
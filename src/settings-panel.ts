@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { serializeSetting } from "./config";
+import type { AssistantConfig, ConfigError, ConfigStore } from "./config";
+import type { VoiceInfo } from "./web-speech";
+
+/** Element id in index.html for each setting shown in the panel. */
+const INPUTS: Partial<Record<keyof AssistantConfig, string>> = {
+  baseUrl: "settings-base-url",
+  model: "settings-model",
+  systemPrompt: "settings-system-prompt",
+  replyLanguage: "settings-reply-language",
+  wakePhrase: "settings-wake-phrase",
+  recognitionLang: "settings-recognition-lang",
+  localizedWakePhrases: "settings-localized-wake-phrases",
+  wakeSensitivity: "settings-wake-sensitivity",
+  wakeCooldownMs: "settings-wake-cooldown",
+  wakeNegativePhrases: "settings-wake-negative-phrases",
+  bargeIn: "settings-barge-in",
+  endpointing: "settings-endpointing",
+  audioFormat: "settings-audio-format",
+  followUpWindowMs: "settings-follow-up-window",
+  conversationMaxTurns: "settings-conversation-max-turns",
+  conversationMaxTokens: "settings-conversation-max-tokens",
+  conversationIdleMs: "settings-conversation-idle",
+  ttsVoice: "settings-tts-voice",
+  ttsRate: "settings-tts-rate",
+  personas: "settings-personas",
+  historyLimit: "settings-history-limit",
+  fallbacks: "settings-fallbacks",
+  firstTokenTimeoutMs: "settings-first-token-timeout",
+  totalTimeoutMs: "settings-total-timeout",
+  llmRetries: "settings-llm-retries",
+  sttProvider: "settings-stt-provider",
+  sttModel: "settings-stt-model",
+  sttBaseUrl: "settings-stt-base-url",
+  sttApiKey: "settings-stt-api-key",
+  ttsProvider: "settings-tts-provider",
+  ttsModel: "settings-tts-model",
+  ttsBaseUrl: "settings-tts-base-url",
+  ttsApiKey: "settings-tts-api-key",
+  localIntents: "settings-local-intents",
+  bridgeUrl: "settings-bridge-url",
+  bridgeToken: "settings-bridge-token",
+  bridgeAudio: "settings-bridge-audio",
+};
+
+type FormElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+export function showConfigErrors(errors: ConfigError[]) {
+  const errorsDiv = document.getElementById("settings-errors");
+  if (!errorsDiv) return;
+  errorsDiv.replaceChildren(
+    ...errors.map((e) => {
+      const div = document.createElement("div");
+      div.textContent = e.message;
+      return div;
+    }),
+  );
+}
+
+function fill(config: AssistantConfig, voices: VoiceInfo[]) {
+  const voiceSelect = document.getElementById(INPUTS.ttsVoice!);
+  if (voiceSelect instanceof HTMLSelectElement) {
+    voiceSelect.replaceChildren(
+      new Option("Browser default", ""),
+      ...voices.map((v) => new Option(`${v.name} (${v.lang || "any language"})`, v.name)),
+    );
+  }
+  for (const [key, id] of Object.entries(INPUTS)) {
+    const input = document.getElementById(id) as FormElement | null;
+    const value = config[key as keyof AssistantConfig];
+    if (!input) continue;
+    if (input instanceof HTMLInputElement && input.type === "checkbox") {
+      input.checked = Boolean(value);
+    } else if (typeof value === "object") {
+      // Edited as JSON; an empty box means none.
+      input.value = Object.keys(value).length
+        ? JSON.stringify(
+          serializeSetting(key as keyof AssistantConfig, value as never),
+          null,
+          2,
+        )
+        : "";
+    } else {
+      input.value = String(value);
+    }
+  }
+}
+
+function read(): Partial<Record<keyof AssistantConfig, unknown>> {
+  const raw: Partial<Record<keyof AssistantConfig, unknown>> = {};
+  for (const [key, id] of Object.entries(INPUTS)) {
+    const input = document.getElementById(id) as FormElement | null;
+    if (!input) continue;
+    raw[key as keyof AssistantConfig] =
+      input instanceof HTMLInputElement && input.type === "checkbox"
+        ? input.checked
+        : input.value;
+  }
+  return raw;
+}
+
+/**
+ * Wires the settings panel and the API key box to the config store. Valid
+ * changes are saved and passed to onApply; invalid ones are listed in the
+ * panel and nothing is applied.
+ */
+export function setupSettingsPanel(
+  store: ConfigStore,
+  getVoices: () => VoiceInfo[],
+  onApply: (config: AssistantConfig) => void,
+) {
+  const apply = (raw: Partial<Record<keyof AssistantConfig, unknown>>) => {
+    const { config, errors } = store.update(raw);
+    showConfigErrors(errors);
+    if (!errors.length) onApply(config);
+    return errors.length === 0;
+  };
+
+  fill(store.config, getVoices());
+  // Chrome loads voices asynchronously.
+  globalThis.speechSynthesis?.addEventListener?.("voiceschanged", () => {
+    const raw = read();
+    fill({ ...store.config, ...raw } as AssistantConfig, getVoices());
+  });
+
+  document.getElementById("settings-save")?.addEventListener("click", (e) => {
+    e.preventDefault();
+    apply(read());
+  });
+  document.getElementById("settings-reset")?.addEventListener("click", (e) => {
+    e.preventDefault();
+    const config = store.reset();
+    showConfigErrors([]);
+    fill(config, getVoices());
+    onApply(config);
+  });
+
+  // The key applies as you type, as before, but is never saved.
+  const apiKeyInput = document.getElementById(
+    "api-key-input",
+  ) as HTMLInputElement | null;
+  const applyApiKey = () => {
+    if (apiKeyInput?.value) apply({ apiKey: apiKeyInput.value });
+  };
+  apiKeyInput?.addEventListener("input", applyApiKey);
+  applyApiKey();
+}
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from "vitest";
+import { normalizeForSpeech, SentenceChunker } from "./speech-text";
+import type { ChunkerOptions } from "./speech-text";
+
+/** Streams the parts in and returns every chunk, flush included. */
+function chunk(parts: string[], options?: ChunkerOptions): string[] {
+  const chunker = new SentenceChunker(options);
+  return [...parts.flatMap((part) => chunker.push(part)), ...chunker.flush()];
+}
+
+/** Each character on its own, like the slowest possible stream. */
+const byChar = (text: string) => [...text];
+
+describe("SentenceChunker", () => {
+  const sentences: [string, string, string[]][] = [
+    ["plain sentences", "Hi there. How are you? Fine!", [
+      "Hi there.",
+      "How are you?",
+      "Fine!",
+    ]],
+    ["abbreviations", "Dr. Smith is here. He says hi.", [
+      "Dr. Smith is here.",
+      "He says hi.",
+    ]],
+    ["e.g. before a lowercase word", "See e.g. this one. And that.", [
+      "See e.g. this one.",
+      "And that.",
+    ]],
+    ["initials", "J. R. R. Tolkien wrote it. Read it.", [
+      "J. R. R. Tolkien wrote it.",
+      "Read it.",
+    ]],
+    ["dotted abbreviations", "The U.S. economy grew. Good.", [
+      "The U.S. economy grew.",
+      "Good.",
+    ]],
+    ["the pronoun I", "So do I. Then we go.", ["So do I.", "Then we go."]],
+    ["decimals", "It costs 3.14 dollars. Cheap!", [
+      "It costs 3.14 dollars.",
+      "Cheap!",
+    ]],
+    ['"2. 5"', "Add 2. 5 more. Done.", ["Add 2. 5 more.", "Done."]],
+    ["ellipses", "Wait... really? Yes... Fine.", [
+      "Wait... really?",
+      "Yes...",
+      "Fine.",
+    ]],
+    ["closing quotes", 'He said "stop." Then left.', [
+      'He said "stop."',
+      "Then left.",
+    ]],
+    ["numbered lists", "Steps:\n1. Open the box.\n2. Take it out.\n", [
+      "Steps:",
+      "1. Open the box.",
+      "2. Take it out.",
+    ]],
+    ["bullet lists", "You need:\n- flour\n- **two** eggs\n", [
+      "You need:",
+      "flour",
+      "two eggs",
+    ]],
+    ["URLs", "Visit https://www.example.com/path?q=1. It's great.", [
+      "Visit example.com.",
+      "It's great.",
+    ]],
+    ["emoji", "Great job! 🎉 You did it 👍🏽.", ["Great job!", "You did it."]],
+    ["a sentence of only emoji", "Done. 🎉🎉", ["Done."]],
+    ["code blocks", "Here:\n```js\nconst a = 1.5;\n```\nDone. Bye.", [
+      "Here:",
+      "I've left out a code block.",
+      "Done.",
+      "Bye.",
+    ]],
+    ["tilde fences", "Run:\n~~~\nls -la\n~~~\nOK.", [
+      "Run:",
+      "I've left out a code block.",
+      "OK.",
+    ]],
+    ["an unclosed code block", "Like this:\n```\nwhile (true) {}\n", [
+      "Like this:",
+      "I've left out a code block.",
+    ]],
+    ["inline code", "Run `npm test` first. Then push.", [
+      "Run npm test first.",
+      "Then push.",
+    ]],
+  ];
+
+  it.each(sentences)("splits %s", (_, text, expected) => {
+    expect(chunk([text])).toEqual(expected);
+  });
+
+  it.each(sentences)("splits %s streamed a character at a time", (
+    _,
+    text,
+    expected,
+  ) => {
+    expect(chunk(byChar(text))).toEqual(expected);
+  });
+
+  it.each([
+    ["mid-word", ["Hello wor", "ld. How are", " you?"], [
+      "Hello world.",
+      "How are you?",
+    ]],
+    ["between the period and the next word", ["It is 3.", "14 now. OK."], [
+      "It is 3.14 now.",
+      "OK.",
+    ]],
+    ["after an abbreviation", ["Ask Dr.", " Who. Now."], [
+      "Ask Dr. Who.",
+      "Now.",
+    ]],
+    ["inside the opening fence", ["Here:\n``", "`js\nconst a = 1;\n``", "`\nDone."], [
+      "Here:",
+      "I've left out a code block.",
+      "Done.",
+    ]],
+    ["inside the fence's language", ["Here:\n```py", "thon\nx = 1\n```\nDone."], [
+      "Here:",
+      "I've left out a code block.",
+      "Done.",
+    ]],
+  ])("joins text split %s", (_, parts, expected) => {
+    expect(chunk(parts)).toEqual(expected);
+  });
+
+  it("holds a sentence back until it knows what follows", () => {
+    const chunker = new SentenceChunker();
+    expect(chunker.push("It costs 3.")).toEqual([]);
+    expect(chunker.push("50. That")).toEqual(["It costs 3.50."]);
+    expect(chunker.flush()).toEqual(["That"]);
+  });
+
+  it("cuts long runs without punctuation at a clause", () => {
+    const text = "one two three four five six seven eight nine ten, eleven " +
+      "twelve thirteen fourteen fifteen sixteen seventeen eighteen";
+    expect(chunk([text], { maxChars: 60, minChars: 20 })).toEqual([
+      "one two three four five six seven eight nine ten,",
+      "eleven twelve thirteen fourteen fifteen sixteen seventeen",
+      "eighteen",
+    ]);
+  });
+
+  it("cuts long runs without a clause at a space", () => {
+    const words = Array.from({ length: 30 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunk([words], { maxChars: 50, minChars: 20 });
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const c of chunks) expect(c.length).toBeLessThanOrEqual(50);
+    expect(chunks.join(" ")).toBe(words);
+  });
+
+  it("cuts a run with no spaces at maxChars", () => {
+    expect(chunk(["x".repeat(120)], { maxChars: 50, minChars: 20 })).toEqual([
+      "x".repeat(50),
+      "x".repeat(50),
+      "x".repeat(20),
+    ]);
+  });
+
+  it("starts over after flush()", () => {
+    const chunker = new SentenceChunker();
+    expect(chunker.push("Look:\n```\ncode")).toEqual([
+      "Look:",
+      "I've left out a code block.",
+    ]);
+    expect(chunker.flush()).toEqual([]);
+    // No longer inside the code block.
+    expect(chunker.push("New answer. Next")).toEqual(["New answer."]);
+  });
+});
+
+describe("normalizeForSpeech", () => {
+  it.each([
+    ["headings", "## Title", "Title"],
+    ["bold and italics", "**bold**, *em* and _under_", "bold, em and under"],
+    ["snake_case and products", "snake_case_name is 2*3*4", "snake_case_name is 2*3*4"],
+    ["strikethrough", "~~gone~~ here", "gone here"],
+    ["inline code", "Use `npm i` now", "Use npm i now"],
+    ["quotes", "> quoted", "quoted"],
+    ["rules", "---", ""],
+    ["task lists", "- [x] done", "done"],
+    ["links", "See [the docs](https://example.com/docs \"Docs\").", "See the docs."],
+    ["images", "![a cat](cat.png)", "a cat"],
+    ["autolinks", "<https://a.org/b>", "a.org"],
+    ["bare URLs", "Go to https://www.github.com/x/y, then wait.", "Go to github.com, then wait."],
+    ["URLs that aren't", "http://", "http://"],
+    ["tables", "| a | b |\n|---|:-:|\n| 1 | 2 |", "a, b. 1, 2."],
+    ["ampersands", "Salt & pepper", "Salt and pepper"],
+    ["emoji", "Nice 😀 work 👍🏽!", "Nice work!"],
+    ["flags", "🇩🇪 Germany", "Germany"],
+    ["ZWJ sequences", "Family 👨‍👩‍👧 time", "Family time"],
+    ["keycaps", "1️⃣ first", "1 first"],
+    ["extra whitespace", "  a \n  b  ", "a b"],
+  ])("handles %s", (_, text, expected) => {
+    expect(normalizeForSpeech(text)).toBe(expected);
+  });
+});
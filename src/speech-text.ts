@@ -0,0 +1,221 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/** Words that end in a period without ending the sentence. */
+const ABBREVIATIONS = new Set([
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "mt", "vs", "etc",
+  "approx", "no", "vol", "fig", "inc", "ltd", "co", "corp", "dept", "est",
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct",
+  "nov", "dec", "min", "max", "avg", "tbsp", "tsp", "oz", "lb", "lbs",
+]);
+
+/** Said instead of reading a code block aloud. */
+const CODE_BLOCK = "I've left out a code block.";
+
+const FENCE = /^[ \t]*(?:```|~~~)/;
+
+export interface ChunkerOptions {
+  /**
+   * Text without a sentence end is cut at a clause or word boundary once it
+   * gets this long, so speech starts quickly.
+   */
+  maxChars?: number;
+  /** Forced cuts never make a chunk shorter than this. */
+  minChars?: number;
+}
+
+/** Web page addresses read as just their host, e.g. "github.com". */
+function shortenUrls(text: string): string {
+  return text.replace(/\bhttps?:\/\/[^\s<>()]+/g, (url) => {
+    try {
+      return new URL(url.replace(/[.,;:!?]+$/, "")).hostname
+        .replace(/^www\./, "") + url.match(/[.,;:!?]*$/)![0];
+    } catch {
+      return url;
+    }
+  });
+}
+
+/**
+ * Turns a chunk of model output into plain text for speech synthesis:
+ * markdown markup is dropped or voiced, links and URLs are shortened and
+ * emoji are removed.
+ */
+export function normalizeForSpeech(text: string): string {
+  return shortenUrls(
+    text
+      // Images and links keep their text.
+      .replace(/!?\[([^\]]*)\]\(([^)\s]*)[^)]*\)/g, "$1")
+      .replace(/<(https?:\/\/[^>\s]+)>/g, "$1"),
+  )
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*#{1,6}\s+/, "")
+        .replace(/^\s*>\s?/, "")
+        .replace(/^\s*[-*+•]\s+(?:\[[ xX]\]\s+)?/, "")
+        .replace(/^\s*(?:[-*_]\s*){3,}$/, "")
+        // Table rows are read cell by cell; separator rows are dropped.
+        .replace(/^\s*\|?(?:\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/, "")
+        .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) =>
+          cells.split("|").map((c) => c.trim()).filter(Boolean).join(", ") +
+          ".")
+    )
+    .join(" ")
+    .replace(/`+([^`]*)`+/g, "$1")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(?!\s)([^*]+?)\*(?!\w)/g, "$1$2")
+    .replace(/(^|[^\w])_(?!\s)([^_]+?)_(?!\w)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/\s&\s/g, " and ")
+    .replace(
+      /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u200d\ufe0f\u20e3]/gu,
+      "",
+    )
+    .replace(/\s+([.,;:!?])/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Whether the text has something to say once punctuation is ignored. */
+function speakable(text: string): boolean {
+  return /[\p{L}\p{N}]/u.test(text);
+}
+
+/**
+ * Splits streamed model output into sentences for speech synthesis. Periods
+ * after abbreviations, initials, list numbers and inside numbers don't end a
+ * sentence; line breaks do. Code blocks are skipped. Chunks come out
+ * normalized with normalizeForSpeech().
+ */
+export class SentenceChunker {
+  #buf = "";
+  #inCode = false;
+  #maxChars: number;
+  #minChars: number;
+
+  constructor({ maxChars = 150, minChars = 40 }: ChunkerOptions = {}) {
+    this.#maxChars = maxChars;
+    this.#minChars = minChars;
+  }
+
+  /** Adds streamed text; returns the chunks that are now complete. */
+  push(text: string): string[] {
+    this.#buf += text;
+    return this.#drain(false);
+  }
+
+  /** Returns whatever is left once the stream has ended. */
+  flush(): string[] {
+    const chunks = this.#drain(true);
+    this.#buf = "";
+    this.#inCode = false;
+    return chunks;
+  }
+
+  #drain(final: boolean): string[] {
+    const raw: string[] = [];
+    while (this.#buf) {
+      // A fence only counts once its line is complete.
+      const lines = this.#buf.split("\n");
+      const fenceLine = lines.findIndex((line, i) =>
+        FENCE.test(line) && (i < lines.length - 1 || final)
+      );
+      if (this.#inCode) {
+        if (fenceLine < 0) {
+          // Drop finished code lines, keep a partial one that may be a fence.
+          this.#buf = final ? "" : lines.at(-1)!;
+          break;
+        }
+        this.#buf = lines.slice(fenceLine + 1).join("\n");
+        this.#inCode = false;
+        continue;
+      }
+      if (fenceLine >= 0) {
+        const prose = lines.slice(0, fenceLine).join("\n");
+        raw.push(...this.#split(prose, true).chunks, CODE_BLOCK);
+        this.#buf = lines.slice(fenceLine + 1).join("\n");
+        this.#inCode = true;
+        continue;
+      }
+      // A line starting with backticks may turn out to be a fence.
+      const undecided = !final && /^[ \t]*[`~]{1,3}$/.test(lines.at(-1)!);
+      const prose = undecided ? lines.slice(0, -1).join("\n") : this.#buf;
+      const { chunks, rest } = this.#split(prose, final);
+      raw.push(...chunks);
+      this.#buf = undecided ? `${rest}\n${lines.at(-1)}` : rest;
+      break;
+    }
+    return raw.map(normalizeForSpeech).filter(speakable);
+  }
+
+  /**
+   * Cuts text at sentence boundaries. Without `complete` the text may go on,
+   * so a boundary right at the end isn't trusted and the rest is returned.
+   */
+  #split(text: string, complete: boolean): { chunks: string[]; rest: string } {
+    const chunks: string[] = [];
+    let start = 0;
+    const boundary = /[.!?…]+["'”’)\]*_]*(?=\s)|\n/g;
+    for (let match; (match = boundary.exec(text));) {
+      const end = match.index + match[0].length;
+      if (match[0] !== "\n") {
+        const after = text.slice(end).match(/^\s+(\S)?/);
+        const next = after?.[1];
+        if (!next && !complete) break;
+        if (
+          next && !after![0].includes("\n") &&
+          !this.#endsSentence(text.slice(start, end), match[0], next)
+        ) continue;
+      }
+      chunks.push(text.slice(start, end));
+      start = end;
+    }
+    let rest = text.slice(start);
+    while (rest.length > this.#maxChars) {
+      const cut = this.#forcedCut(rest);
+      chunks.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    if (complete) {
+      chunks.push(rest);
+      rest = "";
+    }
+    return { chunks: chunks.filter((c) => c.trim()), rest };
+  }
+
+  #endsSentence(sentence: string, punctuation: string, next: string): boolean {
+    if (!punctuation.startsWith(".")) return true;
+    // "e.g. this", "2. 5" and "wait... really" all go on.
+    if (/[\p{Ll}\d]/u.test(next)) return false;
+    if (punctuation.startsWith("...")) return true;
+    const word = sentence.trimEnd().match(/(\S+?)\.+["'”’)\]*_]*$/)?.[1] ?? "";
+    const bare = word.replace(/^[("'“‘*_]+/, "");
+    if (ABBREVIATIONS.has(bare.toLowerCase())) return false;
+    // Initials ("J. R. R. Tolkien") and dotted abbreviations ("U.S."), but
+    // not the pronoun in "So do I. Then we go."
+    if (bare !== "I" && /^\p{L}(?:\.\p{L})*$/u.test(bare)) return false;
+    // A numbered list item's number.
+    if (/^\d+$/.test(bare) && sentence.trim() === `${bare}.`) return false;
+    return true;
+  }
+
+  /** Where to cut a long run without a sentence end. */
+  #forcedCut(text: string): number {
+    const window = text.slice(this.#minChars, this.#maxChars);
+    const clause = Math.max(
+      ...[...window.matchAll(/[,;:]\s|\s[–—-]\s/g)].map((m) =>
+        m.index! + m[0].length - 1
+      ),
+    );
+    if (clause > 0) return this.#minChars + clause;
+    const space = text.lastIndexOf(" ", this.#maxChars);
+    return space > this.#minChars ? space : this.#maxChars;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { TurnTelemetry, TurnTimings } from "./telemetry";
+
+/** Most recent turns listed under the summary. */
+const RECENT_TURNS = 10;
+
+function ms(value: number | undefined): string {
+  return value === undefined || Number.isNaN(value) ? "–" : `${value}`;
+}
+
+function table(head: string[], rows: string[][]): HTMLTableElement {
+  const el = document.createElement("table");
+  const header = el.createTHead().insertRow();
+  for (const text of head) {
+    const th = document.createElement("th");
+    th.textContent = text;
+    header.append(th);
+  }
+  const body = el.createTBody();
+  for (const row of rows) {
+    const tr = body.insertRow();
+    for (const text of row) tr.insertCell().textContent = text;
+  }
+  return el;
+}
+
+function turnRow(t: TurnTimings): string[] {
+  return [
+    new Date(t.startedAt).toLocaleTimeString(),
+    t.intent ? `intent: ${t.intent}` : t.model ?? "",
+    t.uploadBytes === undefined ? "–" : `${(t.uploadBytes / 1024).toFixed(0)}`,
+    ms(t.recorderReadyMs),
+    ms(t.speechEndMs),
+    ms(t.commandMs),
+    ms(t.firstTokenMs),
+    ms(t.firstAudioMs),
+    ms(t.responseEndMs),
+    t.error ?? (t.interrupted ? "interrupted" : ""),
+  ];
+}
+
+/**
+ * Wires the performance panel in index.html: percentiles per stage across
+ * the collected turns, the latest turns and a JSON export. Renders while
+ * the panel is open.
+ */
+export function setupTelemetryView(telemetry: TurnTelemetry) {
+  const panel = document.getElementById("telemetry-panel") as
+    | HTMLDetailsElement
+    | null;
+  const summary = document.getElementById("telemetry-summary");
+  const recent = document.getElementById("telemetry-turns");
+  if (!panel || !summary || !recent) return;
+
+  const render = () => {
+    if (!panel.open) return;
+    summary.replaceChildren(
+      table(
+        ["Stage (ms)", "Turns", "p50", "p90", "p99", "Max"],
+        telemetry.summary().map((s) => [
+          s.label,
+          `${s.count}`,
+          ms(s.p50),
+          ms(s.p90),
+          ms(s.p99),
+          ms(s.max),
+        ]),
+      ),
+    );
+    recent.replaceChildren(
+      table(
+        [
+          "Time",
+          "Model",
+          "Upload KB",
+          "Recorder",
+          "Speech end",
+          "Audio ready",
+          "First token",
+          "First audio",
+          "Done",
+          "",
+        ],
+        telemetry.turns.slice(-RECENT_TURNS).reverse().map(turnRow),
+      ),
+    );
+  };
+
+  telemetry.onchange = render;
+  panel.addEventListener("toggle", render);
+
+  document.getElementById("telemetry-export")?.addEventListener(
+    "click",
+    () => {
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(telemetry, null, 2)], {
+          type: "application/json",
+        }),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `voice-assistant-timings-${
+        new Date().toISOString().replace(/[:.]/g, "-")
+      }.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+  );
+  document.getElementById("telemetry-clear")?.addEventListener(
+    "click",
+    () => telemetry.clear(),
+  );
+}
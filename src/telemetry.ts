@@ -0,0 +1,188 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { VoiceAssistantState } from "./web-speech";
+import type { VoiceAssistantEvent } from "./web-speech";
+
+/**
+ * Where one turn's time went. Times are milliseconds after startedAt, the
+ * wake phrase match or, for follow-ups, the start of the follow-up speech.
+ */
+export interface TurnTimings {
+  turn: number;
+  startedAt: number;
+  followUp: boolean;
+  /** Settings in effect, to compare turns by. */
+  model?: string;
+  sttProvider?: string;
+  ttsProvider?: string;
+  endpointing?: string;
+  audioFormat?: string;
+  /** Set when answered by a local intent instead of the model. */
+  intent?: string;
+  recorderReadyMs?: number;
+  /** Endpointing decided the user stopped talking. */
+  speechEndMs?: number;
+  /** The recording was encoded and handed to the assistant. */
+  commandMs?: number;
+  /** Size of the audio sent, after preprocessing. */
+  uploadBytes?: number;
+  firstTokenMs?: number;
+  /** The first sentence was handed to speech synthesis. */
+  firstSpeechMs?: number;
+  /** The first sentence started playing. */
+  firstAudioMs?: number;
+  responseEndMs?: number;
+  interrupted?: boolean;
+  error?: string;
+}
+
+type TimeMetric = {
+  [K in keyof TurnTimings]-?: K extends `${string}Ms` ? K : never;
+}[keyof TurnTimings];
+
+/** What the dashboard summarizes, as the time between two points. */
+export const STAGES: { label: string; from?: TimeMetric; to: TimeMetric }[] = [
+  { label: "Wake → recorder ready", to: "recorderReadyMs" },
+  { label: "Speech end → audio ready", from: "speechEndMs", to: "commandMs" },
+  { label: "Speech end → first token", from: "speechEndMs", to: "firstTokenMs" },
+  { label: "Speech end → first audio", from: "speechEndMs", to: "firstAudioMs" },
+  { label: "Speech end → response end", from: "speechEndMs", to: "responseEndMs" },
+];
+
+export interface StageSummary {
+  label: string;
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/** Nearest-rank percentile of values sorted ascending. */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return NaN;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function summarize(label: string, values: number[]): StageSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    label,
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.length ? sorted[sorted.length - 1] : NaN,
+  };
+}
+
+/**
+ * Collects TurnTimings from the client's events and the marks the assistant
+ * adds while answering. Keeps the most recent turns in memory.
+ */
+export class TurnTelemetry {
+  #turns: TurnTimings[] = [];
+  /** Turns still collecting, by VoiceClient turn id. */
+  #open = new Map<number, TurnTimings>();
+  limit: number;
+  onchange: ((turns: TurnTimings[]) => void) | undefined;
+
+  constructor(limit = 500) {
+    this.limit = limit;
+  }
+
+  /** Oldest first. */
+  get turns(): TurnTimings[] {
+    return [...this.#turns];
+  }
+
+  observe(event: VoiceAssistantEvent) {
+    if (event.type === "statechange") {
+      if (event.state === VoiceAssistantState.ACTIVATING) {
+        this.#start(event.turn, event.timestamp, false);
+      } else if (event.state === VoiceAssistantState.RECORDING_USER_SPEECH) {
+        // A follow-up starts recording without activating first.
+        if (!this.#open.has(event.turn)) {
+          this.#start(event.turn, event.timestamp, true);
+        }
+        this.mark(event.turn, "recorderReadyMs", event.timestamp);
+      } else if (event.state === VoiceAssistantState.PROCESSING_USER_SPEECH) {
+        this.mark(event.turn, "speechEndMs", event.timestamp);
+      }
+    } else if (event.type === "command") {
+      this.mark(event.turn, "commandMs", event.timestamp);
+      if (event.intent) this.record(event.turn, { intent: event.intent.intent });
+    } else if (event.type === "speakstart") {
+      this.mark(event.turn, "firstSpeechMs", event.timestamp);
+    } else if (event.type === "audiostart") {
+      this.mark(event.turn, "firstAudioMs", event.timestamp);
+    } else if (event.type === "responseend") {
+      this.mark(event.turn, "responseEndMs", event.timestamp);
+      this.record(event.turn, { interrupted: event.interrupted });
+      this.#open.delete(event.turn);
+    }
+  }
+
+  /** Sets a time, unless it was already set: the first token, sentence etc. */
+  mark(turn: number, metric: TimeMetric, at = Date.now()) {
+    const timings = this.#open.get(turn);
+    if (!timings || timings[metric] !== undefined) return;
+    timings[metric] = at - timings.startedAt;
+    this.onchange?.(this.turns);
+  }
+
+  record(turn: number, values: Partial<TurnTimings>) {
+    const timings = this.#open.get(turn);
+    if (!timings) return;
+    Object.assign(timings, values);
+    this.onchange?.(this.turns);
+  }
+
+  summary(turns = this.#turns): StageSummary[] {
+    return STAGES.map(({ label, from, to }) =>
+      summarize(
+        label,
+        turns.flatMap((t) => {
+          const end = t[to];
+          const start = from ? t[from] : 0;
+          return end === undefined || start === undefined ? [] : [end - start];
+        }),
+      )
+    );
+  }
+
+  /** Every turn and the summary, for comparing runs offline. */
+  toJSON() {
+    return {
+      exportedAt: new Date().toISOString(),
+      summary: this.summary(),
+      turns: this.#turns,
+    };
+  }
+
+  clear() {
+    this.#turns = [];
+    this.#open.clear();
+    this.onchange?.(this.turns);
+  }
+
+  #start(turn: number, startedAt: number, followUp: boolean) {
+    // Turns that never got a response, e.g. nothing was recorded.
+    this.#open.clear();
+    const timings: TurnTimings = { turn, startedAt, followUp };
+    this.#open.set(turn, timings);
+    this.#turns.push(timings);
+    if (this.#turns.length > this.limit) {
+      this.#turns.splice(0, this.#turns.length - this.limit);
+    }
+    this.onchange?.(this.turns);
+  }
+}
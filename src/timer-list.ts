@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { formatRemaining } from "./timers";
+import type { ScheduledTimer, Scheduler } from "./timers";
+
+/**
+ * Shows pending timers in the #timers element with a live countdown and a
+ * cancel button each.
+ */
+export function setupTimerList(
+  scheduler: Scheduler,
+  logError: (msg: string) => void,
+) {
+  const list = document.getElementById("timers");
+  if (!list) return;
+  let timers: ScheduledTimer[] = scheduler.timers;
+  const remaining = new Map<string, HTMLElement>();
+
+  const render = () => {
+    remaining.clear();
+    list.replaceChildren(
+      ...timers.map((timer) => {
+        const row = document.createElement("div");
+        const time = document.createElement("span");
+        remaining.set(timer.id, time);
+        const cancel = document.createElement("button");
+        cancel.textContent = "✕";
+        cancel.title = `Cancel ${timer.kind}`;
+        cancel.onclick = () =>
+          scheduler.cancel(timer.id).catch((e) =>
+            logError(`Could not cancel ${timer.kind}: ${e}`)
+          );
+        const label = timer.label ||
+          (timer.kind === "timer" ? "Timer" : "Reminder");
+        row.append(
+          timer.kind === "timer" ? "⏲️ " : "🔔 ",
+          `${label} `,
+          time,
+          " ",
+          cancel,
+        );
+        return row;
+      }),
+    );
+    tick();
+  };
+  const tick = () => {
+    const now = Date.now();
+    for (const timer of timers) {
+      const time = remaining.get(timer.id);
+      if (!time) continue;
+      time.textContent = timer.kind === "timer" ||
+          timer.dueAt - now < 3600_000
+        ? formatRemaining(timer.dueAt - now)
+        : `at ${new Date(timer.dueAt).toLocaleString()}`;
+    }
+  };
+
+  scheduler.onchange = (updated) => {
+    timers = updated;
+    render();
+  };
+  render();
+  setInterval(tick, 1000);
+}
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import type { Tool } from "./tools";
+
+export type TimerKind = "timer" | "reminder";
+
+export interface ScheduledTimer {
+  id: string;
+  kind: TimerKind;
+  /** What the timer is for, or the reminder text. */
+  label: string;
+  /** Epoch milliseconds. */
+  dueAt: number;
+  createdAt: number;
+}
+
+const DB_NAME = "voice-assistant-timers";
+const STORE = "timers";
+/** setTimeout fires straight away for longer delays (~24.8 days). */
+const MAX_DELAY_MS = 2 ** 31 - 1;
+/** Timers that went off this late, e.g. while the page was closed, say so. */
+const LATE_MS = 60_000;
+
+/**
+ * Timers and reminders kept in IndexedDB so they survive reloads. Ones that
+ * came due while the page was closed fire as soon as it loads again.
+ */
+export class Scheduler {
+  #db: IDBDatabase | undefined;
+  #timers = new Map<string, ScheduledTimer>();
+  #handles = new Map<string, ReturnType<typeof setTimeout>>();
+  #logError: (msg: string) => void;
+
+  /** Called when a timer goes off; it's already been removed. */
+  onfire: (timer: ScheduledTimer) => void = () => {};
+  /** Called whenever timers are added, cancelled or fire. */
+  onchange: (timers: ScheduledTimer[]) => void = () => {};
+
+  private constructor(logError: (msg: string) => void) {
+    this.#logError = logError;
+  }
+
+  static async load(
+    logError: (msg: string) => void = console.error,
+  ): Promise<Scheduler> {
+    const scheduler = new Scheduler(logError);
+    try {
+      scheduler.#db = await openDatabase(DB_NAME, 1, (db) => {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      });
+      const stored = await requestToPromise(
+        scheduler.#db.transaction(STORE).objectStore(STORE).getAll(),
+      ) as ScheduledTimer[];
+      for (const timer of stored) scheduler.#arm(timer);
+    } catch (err) {
+      logError(`Timers won't survive a reload: ${err}`);
+    }
+    return scheduler;
+  }
+
+  /** Pending timers, soonest first. */
+  get timers(): ScheduledTimer[] {
+    return [...this.#timers.values()].sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  async add(
+    kind: TimerKind,
+    label: string,
+    dueAt: number,
+  ): Promise<ScheduledTimer> {
+    const timer: ScheduledTimer = {
+      id: crypto.randomUUID(),
+      kind,
+      label,
+      dueAt,
+      createdAt: Date.now(),
+    };
+    await this.#write((store) => store.put(timer));
+    this.#arm(timer);
+    this.onchange(this.timers);
+    return timer;
+  }
+
+  /** Returns false if there was no such timer. */
+  async cancel(id: string): Promise<boolean> {
+    if (!this.#timers.has(id)) return false;
+    await this.#remove(id);
+    this.onchange(this.timers);
+    return true;
+  }
+
+  #arm(timer: ScheduledTimer) {
+    this.#timers.set(timer.id, timer);
+    const delay = Math.max(0, timer.dueAt - Date.now());
+    this.#handles.set(
+      timer.id,
+      setTimeout(() => {
+        if (timer.dueAt > Date.now()) this.#arm(timer);
+        else this.#fire(timer);
+      }, Math.min(delay, MAX_DELAY_MS)),
+    );
+  }
+
+  async #fire(timer: ScheduledTimer) {
+    try {
+      await this.#remove(timer.id);
+    } catch (err) {
+      this.#logError(`Could not remove fired timer: ${err}`);
+    }
+    this.onfire(timer);
+    this.onchange(this.timers);
+  }
+
+  async #remove(id: string) {
+    clearTimeout(this.#handles.get(id));
+    this.#handles.delete(id);
+    this.#timers.delete(id);
+    await this.#write((store) => store.delete(id));
+  }
+
+  async #write(change: (store: IDBObjectStore) => void) {
+    if (!this.#db) return;
+    const tx = this.#db.transaction(STORE, "readwrite");
+    change(tx.objectStore(STORE));
+    await transactionDone(tx);
+  }
+}
+
+/** What to say when a timer goes off. */
+export function describeFiredTimer(
+  timer: ScheduledTimer,
+  now = Date.now(),
+): string {
+  let text = timer.kind === "reminder"
+    ? `Reminder: ${timer.label}.`
+    : timer.label
+    ? `Your ${timer.label} timer is done.`
+    : "Your timer is done.";
+  if (now - timer.dueAt > LATE_MS) {
+    const due = new Date(timer.dueAt).toLocaleTimeString(undefined, {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+    text += ` It was due at ${due}.`;
+  }
+  return text;
+}
+
+/** Remaining time as h:mm:ss or m:ss. */
+export function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+function describe(timer: ScheduledTimer) {
+  return {
+    id: timer.id,
+    kind: timer.kind,
+    label: timer.label,
+    due: new Date(timer.dueAt).toLocaleString(),
+    remaining_seconds: Math.max(0, Math.round((timer.dueAt - Date.now()) / 1000)),
+  };
+}
+
+/** Tools that let the model set, list and cancel timers and reminders. */
+export function timerTools(scheduler: Scheduler): Tool[] {
+  return [
+    {
+      name: "set_timer",
+      description:
+        "Start a countdown timer. The user is told out loud when it goes off.",
+      parameters: {
+        type: "object",
+        properties: {
+          duration_seconds: { type: "number" },
+          label: {
+            type: "string",
+            description: "Short name such as 'pasta' or '10 minute'.",
+          },
+        },
+        required: ["duration_seconds"],
+      },
+      handler: async (
+        { duration_seconds, label = "" }: {
+          duration_seconds: number;
+          label?: string;
+        },
+      ) => {
+        if (!(duration_seconds > 0)) {
+          throw new Error("duration_seconds must be positive.");
+        }
+        const timer = await scheduler.add(
+          "timer",
+          label,
+          Date.now() + duration_seconds * 1000,
+        );
+        return describe(timer);
+      },
+    },
+    {
+      name: "set_reminder",
+      description:
+        "Remind the user of something out loud at a given time. Pass either " +
+        "'at' as an ISO 8601 date-time with the user's UTC offset, e.g. " +
+        "2025-06-01T18:00:00+02:00, or 'in_seconds'.",
+      parameters: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          at: { type: "string" },
+          in_seconds: { type: "number" },
+        },
+        required: ["text"],
+      },
+      handler: async (
+        { text, at, in_seconds }: {
+          text: string;
+          at?: string;
+          in_seconds?: number;
+        },
+      ) => {
+        const dueAt = at !== undefined
+          ? new Date(at).getTime()
+          : Date.now() + (in_seconds ?? NaN) * 1000;
+        if (!Number.isFinite(dueAt)) {
+          throw new Error("Pass a valid 'at' date-time or 'in_seconds'.");
+        }
+        if (dueAt <= Date.now()) throw new Error("That time has passed.");
+        return describe(await scheduler.add("reminder", text, dueAt));
+      },
+    },
+    {
+      name: "list_timers",
+      description: "List the pending timers and reminders.",
+      parameters: { type: "object", properties: {} },
+      handler: () => ({ timers: scheduler.timers.map(describe) }),
+    },
+    {
+      name: "cancel_timer",
+      description:
+        "Cancel timers or reminders by id or label. Pass all=true to cancel every one.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          all: { type: "boolean" },
+        },
+      },
+      handler: async (
+        { id, label, all }: { id?: string; label?: string; all?: boolean },
+      ) => {
+        const wanted = label?.toLowerCase();
+        const matches = scheduler.timers.filter((t) =>
+          all || t.id === id ||
+          (!!wanted && t.label.toLowerCase().includes(wanted))
+        );
+        if (!matches.length) throw new Error("No matching timer.");
+        for (const timer of matches) await scheduler.cancel(timer.id);
+        return { cancelled: matches.map(describe) };
+      },
+    },
+  ];
+}
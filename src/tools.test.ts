@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { localIsoString, timeZone } from "./tools";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("localIsoString", () => {
+  it.each([
+    ["UTC", "2025-06-01T12:30:05+00:00"],
+    ["Europe/Berlin", "2025-06-01T14:30:05+02:00"],
+    ["America/New_York", "2025-06-01T08:30:05-04:00"],
+    ["Australia/Adelaide", "2025-06-01T22:00:05+09:30"],
+    ["America/St_Johns", "2025-06-01T10:00:05-02:30"],
+  ])("gives the local time in %s", (zone, expected) => {
+    vi.stubEnv("TZ", zone);
+    const date = new Date("2025-06-01T12:30:05Z");
+    expect(localIsoString(date)).toBe(expected);
+    expect(new Date(localIsoString(date)).getTime()).toBe(date.getTime());
+    expect(timeZone()).toBe(zone);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import type { ChatCompletionTool } from "openai/resources/chat/completions";
+
+export interface Tool<Args = any> {
+  name: string;
+  description: string;
+  /** JSON schema for the arguments object. */
+  parameters: Record<string, unknown>;
+  handler: (args: Args) => unknown | Promise<unknown>;
+}
+
+/** Tools the model may call, keyed by name. */
+export class ToolRegistry {
+  #tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) this.register(tool);
+  }
+
+  register(tool: Tool) {
+    this.#tools.set(tool.name, tool);
+  }
+
+  unregister(name: string) {
+    this.#tools.delete(name);
+  }
+
+  get size(): number {
+    return this.#tools.size;
+  }
+
+  definitions(): ChatCompletionTool[] {
+    return [...this.#tools.values()].map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Runs a tool with the model's JSON-encoded arguments. Failures are
+   * returned as the result so the model can explain them to the user.
+   */
+  async call(name: string, argsJson: string): Promise<string> {
+    const tool = this.#tools.get(name);
+    if (!tool) return JSON.stringify({ error: `Unknown tool: ${name}` });
+    try {
+      const args = argsJson.trim() ? JSON.parse(argsJson) : {};
+      const result = await tool.handler(args);
+      return typeof result === "string" ? result : JSON.stringify(result);
+    } catch (err: any) {
+      return JSON.stringify({ error: err?.message ?? String(err) });
+    }
+  }
+}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates arithmetic without eval(): + - * / % ^, parentheses, unary
+ * minus, the functions above and pi/e.
+ */
+export function calculate(expression: string): number {
+  // Drop whitespace and thousands separators ("1,000").
+  const normalized = expression.toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/\s+/g, "");
+  const tokens = normalized.match(
+    /\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|[-+*/%^()]/g,
+  ) ?? [];
+  if (tokens.join("") !== normalized) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = sum();
+      if (next() !== ")") throw new Error("Missing )");
+      return value;
+    }
+    if (token === "-") return -power();
+    if (token === "+") return power();
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (token in CONSTANTS) return CONSTANTS[token];
+    if (token in FUNCTIONS) {
+      if (next() !== "(") throw new Error(`Expected ( after ${token}`);
+      const value = sum();
+      if (next() !== ")") throw new Error("Missing )");
+      return FUNCTIONS[token](value);
+    }
+    throw new Error(`Unknown token: ${token}`);
+  };
+  const power = (): number => {
+    const base = primary();
+    if (peek() === "^") {
+      next();
+      return base ** power();
+    }
+    return base;
+  };
+  const product = (): number => {
+    let value = power();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const rhs = power();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const result = sum();
+  if (pos < tokens.length) throw new Error(`Unexpected ${tokens[pos]}`);
+  return result;
+}
+
+/**
+ * The local time as ISO 8601 with its UTC offset, e.g.
+ * "2025-06-01T14:30:00+02:00", unlike toISOString()'s UTC.
+ */
+export function localIsoString(date: Date): string {
+  const pad = (n: number) => String(Math.abs(n)).padStart(2, "0");
+  const offset = -date.getTimezoneOffset();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${
+    pad(date.getDate())
+  }T${pad(date.getHours())}:${pad(date.getMinutes())}:${
+    pad(date.getSeconds())
+  }${offset < 0 ? "-" : "+"}${pad(Math.trunc(offset / 60))}:${
+    pad(offset % 60)
+  }`;
+}
+
+/** The user's IANA time zone, e.g. "Europe/Berlin". */
+export function timeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const KV_PREFIX = "voice-assistant.kv.";
+const KV_MAX_KEYS = 100;
+const KV_MAX_VALUE_LENGTH = 1000;
+
+function kvKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(KV_PREFIX)) keys.push(key.slice(KV_PREFIX.length));
+  }
+  return keys;
+}
+
+export const builtinTools: Tool[] = [
+  {
+    name: "get_current_time",
+    description:
+      "Get the current local date, time, weekday and time zone of the user.",
+    parameters: { type: "object", properties: {} },
+    handler: () => {
+      const now = new Date();
+      return {
+        iso: localIsoString(now),
+        local: now.toLocaleString(undefined, {
+          dateStyle: "full",
+          timeStyle: "long",
+        }),
+        timeZone: timeZone(),
+      };
+    },
+  },
+  {
+    name: "calculate",
+    description:
+      "Evaluate an arithmetic expression exactly, e.g. '(3.5 + 2) * 4^2' or 'sqrt(2)'. " +
+      "Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log, exp, pi, e.",
+    parameters: {
+      type: "object",
+      properties: { expression: { type: "string" } },
+      required: ["expression"],
+    },
+    handler: ({ expression }: { expression: string }) => ({
+      expression,
+      result: calculate(expression),
+    }),
+  },
+  {
+    name: "memory_get",
+    description:
+      "Read a value the user asked you to remember earlier. Omit key to list all saved keys.",
+    parameters: {
+      type: "object",
+      properties: { key: { type: "string" } },
+    },
+    handler: ({ key }: { key?: string }) => {
+      if (!key) return { keys: kvKeys() };
+      const value = localStorage.getItem(KV_PREFIX + key);
+      return value === null ? { key, found: false } : { key, value };
+    },
+  },
+  {
+    name: "memory_set",
+    description:
+      "Remember a short value under a key across sessions, e.g. the user's name. " +
+      "Pass an empty value to forget the key.",
+    parameters: {
+      type: "object",
+      properties: { key: { type: "string" }, value: { type: "string" } },
+      required: ["key", "value"],
+    },
+    handler: ({ key, value }: { key: string; value: string }) => {
+      if (!value) {
+        localStorage.removeItem(KV_PREFIX + key);
+        return { key, deleted: true };
+      }
+      if (value.length > KV_MAX_VALUE_LENGTH) {
+        throw new Error(`Values are limited to ${KV_MAX_VALUE_LENGTH} characters.`);
+      }
+      if (!kvKeys().includes(key) && kvKeys().length >= KV_MAX_KEYS) {
+        throw new Error(`Memory is full (${KV_MAX_KEYS} keys).`);
+      }
+      localStorage.setItem(KV_PREFIX + key, value);
+      return { key, saved: true };
+    },
+  },
+];
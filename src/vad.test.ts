@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { VoiceActivityDetector } from "./vad";
+import type { VadOptions } from "./vad";
+
+/**
+ * Stands in for the capture service's AnalyserNode: a steady signal at
+ * level() dBFS, all in the voice band unless voice() says otherwise.
+ */
+function fakeAnalyser(level: () => number, voice = () => true) {
+  return {
+    fftSize: 1024,
+    frequencyBinCount: 512,
+    context: { sampleRate: 16000 },
+    getFloatTimeDomainData(data: Float32Array) {
+      data.fill(10 ** (level() / 20));
+    },
+    getFloatFrequencyData(data: Float32Array) {
+      // 15.6Hz bins; the voice band is 300-3400Hz.
+      const inBand = voice();
+      data.forEach((_, i) => {
+        const hz = i * 15.625;
+        data[i] = (hz >= 300 && hz <= 3400) === inBand ? 0 : -100;
+      });
+    },
+  } as unknown as AnalyserNode;
+}
+
+function detect(
+  level: () => number,
+  voice?: () => boolean,
+  options?: VadOptions,
+) {
+  const vad = new VoiceActivityDetector(fakeAnalyser(level, voice), options);
+  const events: string[] = [];
+  vad.onSpeechStart = () => events.push(`start@${Date.now()}`);
+  vad.onSpeechEnd = () => events.push(`end@${Date.now()}`);
+  return { vad, events };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 0 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("VoiceActivityDetector", () => {
+  it("finds the start and end of speech", () => {
+    let level = -80;
+    const { vad, events } = detect(() => level);
+    vi.advanceTimersByTime(1000);
+    level = -20;
+    vi.advanceTimersByTime(2000);
+    level = -80;
+    vi.advanceTimersByTime(2000);
+    // 250ms of speech to start, 800ms of silence to end.
+    expect(events).toEqual(["start@1260", "end@3800"]);
+    vad.stop();
+  });
+
+  it("ignores clicks shorter than the minimum utterance", () => {
+    let level = -80;
+    const { vad, events } = detect(() => level);
+    vi.advanceTimersByTime(1000);
+    level = -20;
+    vi.advanceTimersByTime(100);
+    level = -80;
+    vi.advanceTimersByTime(2000);
+    expect(events).toEqual([]);
+    vad.stop();
+  });
+
+  it("ignores loud sound outside the voice band", () => {
+    const { vad, events } = detect(() => -20, () => false);
+    vi.advanceTimersByTime(3000);
+    expect(events).toEqual([]);
+    vad.stop();
+  });
+
+  it("ignores sound below the threshold", () => {
+    const { vad, events } = detect(() => -55);
+    vi.advanceTimersByTime(3000);
+    expect(events).toEqual([]);
+    vad.stop();
+  });
+
+  it("lets steady noise that passes for speech end eventually", () => {
+    let level = -80;
+    const { vad, events } = detect(() => level);
+    vi.advanceTimersByTime(1000);
+    // A fan in the voice band, loud enough to count as speech at first.
+    level = -40;
+    vi.advanceTimersByTime(5000);
+    expect(events).toEqual(["start@1260"]);
+    vi.advanceTimersByTime(15000);
+    expect(events).toHaveLength(2);
+    expect(events[1]).toMatch(/^end@/);
+    vad.stop();
+  });
+
+  it("starts from the noise floor the last detector learned", () => {
+    let level = -80;
+    const first = detect(() => level);
+    vi.advanceTimersByTime(1000);
+    // A noisy room, taken for speech until the floor catches up.
+    level = -40;
+    vi.advanceTimersByTime(20000);
+    first.vad.stop();
+    const noiseFloorDb = first.vad.noiseFloorDb;
+    expect(noiseFloorDb).toBeGreaterThan(-45);
+
+    // The room noise isn't speech to the next one, but talking over it is.
+    const next = detect(() => level, undefined, { noiseFloorDb });
+    vi.advanceTimersByTime(3000);
+    expect(next.events).toEqual([]);
+    level = -20;
+    vi.advanceTimersByTime(300);
+    expect(next.events).toHaveLength(1);
+    next.vad.stop();
+
+    const fresh = detect(() => -40);
+    vi.advanceTimersByTime(3000);
+    expect(fresh.events).toHaveLength(1);
+    fresh.vad.stop();
+  });
+
+  it("stops analyzing when stopped", () => {
+    const level = vi.fn(() => -80);
+    const { vad } = detect(level);
+    vi.advanceTimersByTime(100);
+    vad.stop();
+    const calls = level.mock.calls.length;
+    vi.advanceTimersByTime(1000);
+    expect(level.mock.calls.length).toBe(calls);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+export interface VadOptions {
+  /** Frames quieter than this (dBFS) are never speech. */
+  thresholdDb?: number;
+  /** Frames must also be this far above the adaptive noise floor. */
+  marginDb?: number;
+  /** Minimum share of spectral energy in the 300-3400Hz voice band. */
+  minVoiceBandRatio?: number;
+  /** Silence needed after speech before the utterance is considered over. */
+  hangoverMs?: number;
+  /** Bursts of speech shorter than this (clicks, coughs) are ignored. */
+  minUtteranceMs?: number;
+  /** Analysis interval. */
+  frameMs?: number;
+  /** Starting noise floor (dBFS), e.g. what the last detector ended with. */
+  noiseFloorDb?: number;
+}
+
+const VOICE_BAND_HZ = [300, 3400];
+
+/**
+ * Energy/spectral voice activity detector on live input: an AnalyserNode
+ * already fed by the microphone, or a MediaStream it opens its own
+ * AudioContext for. Tracks a noise floor and calls onSpeechStart once enough
+ * speech accumulated, then onSpeechEnd after hangoverMs of silence.
+ */
+export class VoiceActivityDetector {
+  onSpeechStart: (() => void) | null = null;
+  onSpeechEnd: (() => void) | null = null;
+
+  /** Set when we opened the context ourselves. */
+  #context: AudioContext | undefined;
+  #source: MediaStreamAudioSourceNode | undefined;
+  #analyser: AnalyserNode;
+  #interval: any;
+  #timeData: Float32Array<ArrayBuffer>;
+  #freqData: Float32Array<ArrayBuffer>;
+  #thresholdDb: number;
+  #marginDb: number;
+  #minVoiceBandRatio: number;
+  #hangoverMs: number;
+  #minUtteranceMs: number;
+  #frameMs: number;
+
+  #noiseFloorDb: number;
+  #speechMs = 0;
+  #silenceMs = 0;
+  #speaking = false;
+
+  constructor(
+    input: AnalyserNode | MediaStream,
+    {
+      thresholdDb = -50,
+      marginDb = 10,
+      minVoiceBandRatio = 0.5,
+      hangoverMs = 800,
+      minUtteranceMs = 250,
+      frameMs = 20,
+      noiseFloorDb = -70,
+    }: VadOptions = {},
+  ) {
+    this.#thresholdDb = thresholdDb;
+    this.#marginDb = marginDb;
+    this.#minVoiceBandRatio = minVoiceBandRatio;
+    this.#hangoverMs = hangoverMs;
+    this.#minUtteranceMs = minUtteranceMs;
+    this.#frameMs = frameMs;
+    this.#noiseFloorDb = noiseFloorDb;
+
+    if ("getTracks" in input) {
+      this.#context = new AudioContext();
+      this.#source = this.#context.createMediaStreamSource(input);
+      this.#analyser = this.#context.createAnalyser();
+      this.#analyser.fftSize = 1024;
+      this.#source.connect(this.#analyser);
+    } else {
+      this.#analyser = input;
+    }
+    this.#timeData = new Float32Array(this.#analyser.fftSize);
+    this.#freqData = new Float32Array(this.#analyser.frequencyBinCount);
+    this.#interval = setInterval(() => this.#analyze(), frameMs);
+  }
+
+  get speaking(): boolean {
+    return this.#speaking;
+  }
+
+  /** The noise floor learned so far, to start the next detector from. */
+  get noiseFloorDb(): number {
+    return this.#noiseFloorDb;
+  }
+
+  stop() {
+    clearInterval(this.#interval);
+    this.#source?.disconnect();
+    this.#context?.close();
+  }
+
+  #levelDb(): number {
+    this.#analyser.getFloatTimeDomainData(this.#timeData);
+    let sum = 0;
+    for (const v of this.#timeData) sum += v * v;
+    const rms = Math.sqrt(sum / this.#timeData.length);
+    return 20 * Math.log10(rms || 1e-10);
+  }
+
+  #voiceBandRatio(): number {
+    this.#analyser.getFloatFrequencyData(this.#freqData);
+    const binHz = this.#analyser.context.sampleRate / this.#analyser.fftSize;
+    let voice = 0, total = 0;
+    for (let i = 0; i < this.#freqData.length; i++) {
+      const power = 10 ** (this.#freqData[i] / 10);
+      total += power;
+      const hz = i * binHz;
+      if (hz >= VOICE_BAND_HZ[0] && hz <= VOICE_BAND_HZ[1]) voice += power;
+    }
+    return total > 0 ? voice / total : 0;
+  }
+
+  #analyze() {
+    const level = this.#levelDb();
+    const isSpeech = level > this.#thresholdDb &&
+      level > this.#noiseFloorDb + this.#marginDb &&
+      this.#voiceBandRatio() >= this.#minVoiceBandRatio;
+
+    // Slow-moving average so a pause in speech doesn't raise the floor much.
+    // Speech pulls it up too, far more slowly, so steady noise that passes
+    // for speech (a fan, a TV) stops counting after a while.
+    const rate = isSpeech ? 0.002 : 0.05;
+    this.#noiseFloorDb = this.#noiseFloorDb * (1 - rate) + level * rate;
+
+    if (isSpeech) {
+      this.#speechMs += this.#frameMs;
+      this.#silenceMs = 0;
+      if (!this.#speaking && this.#speechMs >= this.#minUtteranceMs) {
+        this.#speaking = true;
+        this.onSpeechStart?.();
+      }
+      return;
+    }
+
+    this.#silenceMs += this.#frameMs;
+    if (this.#silenceMs < this.#hangoverMs) return;
+    if (this.#speaking) {
+      this.#speaking = false;
+      this.#speechMs = 0;
+      this.onSpeechEnd?.();
+    } else {
+      this.#speechMs = 0;
+    }
+  }
+}
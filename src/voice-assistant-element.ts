@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { createElement, Mic, MicOff } from "lucide";
+import { VoiceAssistant } from "./assistant";
+import { DEFAULT_CONFIG, fromParams, parseLayer, settingParams } from "./config";
+import type { AssistantConfig, ConfigError } from "./config";
+import { VoiceAssistantState } from "./web-speech";
+import type { VoiceAssistantEvent } from "./web-speech";
+
+const STATUS: Record<VoiceAssistantState, string> = {
+  [VoiceAssistantState.MUTED]: "Muted. Tap the mic to unmute.",
+  [VoiceAssistantState.LISTENING_FOR_WAKE_WORD]: "Say the wake phrase to start.",
+  [VoiceAssistantState.ACTIVATING]: "Heard you!",
+  [VoiceAssistantState.RECORDING_USER_SPEECH]: "Listening...",
+  [VoiceAssistantState.AWAITING_FOLLOW_UP]: "Anything else? Just keep talking.",
+  [VoiceAssistantState.PROCESSING_USER_SPEECH]: "Thinking...",
+  [VoiceAssistantState.SPEAKING]: "Speaking...",
+};
+
+const TEMPLATE = `
+<style>
+  :host {
+    display: inline-flex;
+    flex-direction: column;
+    align-items: center;
+    gap: 0.5em;
+  }
+  [part="button"] {
+    border: none;
+    background: none;
+    padding: 0;
+    cursor: pointer;
+    color: red;
+    transition: color 0.3s ease-in-out;
+  }
+  [part="icon"] {
+    width: 4em;
+    height: 4em;
+  }
+  :host([state="muted"]) [part="button"] { color: gray; }
+  :host([state="activating"]) [part="button"] { color: orange; }
+  :host([state="recording_user_speech"]) [part="button"] { color: green; }
+  :host([state="awaiting_follow_up"]) [part="button"] { color: teal; }
+  :host([state="processing_user_speech"]) [part="button"] { color: blue; }
+  :host([state="speaking"]) [part="button"] { color: purple; }
+</style>
+<button part="button" type="button"></button>
+<span part="status"></span>
+`;
+
+/**
+ * <voice-assistant api-key="..." wake-phrase="hey computer">, on top of
+ * VoiceAssistant. Settings come from attributes named like the URL
+ * parameters, overridden by the config property, e.g. for keys that
+ * shouldn't appear in the markup. Every VoiceAssistantEvent is
+ * re-dispatched as a CustomEvent of the same type with the event as detail,
+ * and log lines as "log" events. The host's state attribute and the
+ * button, icon and status parts are there for styling.
+ */
+export class VoiceAssistantElement extends HTMLElement {
+  static observedAttributes = [...settingParams(), "autostart"];
+
+  #assistant: VoiceAssistant | undefined;
+  #starting: Promise<void> | undefined;
+  #overrides: Partial<AssistantConfig> = {};
+  #button: HTMLButtonElement;
+  #status: HTMLElement;
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: "open" });
+    root.innerHTML = TEMPLATE;
+    this.#button = root.querySelector("button")!;
+    this.#status = root.querySelector("[part=status]")!;
+    this.#button.addEventListener("click", () => this.toggleMute());
+    this.#showMuted(true);
+  }
+
+  /** Undefined until connected and started. */
+  get assistant(): VoiceAssistant | undefined {
+    return this.#assistant;
+  }
+
+  /** Attributes with the config property applied on top. */
+  get config(): AssistantConfig {
+    const errors: ConfigError[] = [];
+    const attributes = parseLayer(
+      fromParams((param) => this.getAttribute(param)),
+      "attribute",
+      errors,
+    );
+    for (const error of errors) this.#logError(`Config: ${error.message}`);
+    return { ...DEFAULT_CONFIG, ...attributes, ...this.#overrides };
+  }
+
+  set config(config: Partial<AssistantConfig>) {
+    this.#overrides = { ...config };
+    this.#apply();
+  }
+
+  toggleMute() {
+    this.#assistant?.client.toggleMute();
+  }
+
+  connectedCallback() {
+    this.#starting ??= this.#start().catch((err) => {
+      this.#logError(`Could not start voice assistant: ${err}`);
+      this.#status.textContent = `Error: ${err.message ?? err}`;
+      this.#starting = undefined;
+    });
+  }
+
+  async disconnectedCallback() {
+    const starting = this.#starting;
+    await starting;
+    // Moved within the page rather than removed.
+    if (this.isConnected || this.#starting !== starting) return;
+    this.#starting = undefined;
+    this.#assistant?.dispose();
+    this.#assistant = undefined;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+    if (name !== "autostart" && oldValue !== value) this.#apply();
+  }
+
+  async #start() {
+    const assistant = await VoiceAssistant.create(this.config, {
+      initialState: this.hasAttribute("autostart")
+        ? VoiceAssistantState.LISTENING_FOR_WAKE_WORD
+        : VoiceAssistantState.MUTED,
+      log: (message) => this.#emitLog(message, false),
+      logError: (message) => this.#emitLog(message, true),
+    });
+    this.#assistant = assistant;
+    this.#run(assistant);
+  }
+
+  async #run(assistant: VoiceAssistant) {
+    for await (const event of assistant.events()) {
+      this.#render(event);
+      this.dispatchEvent(
+        new CustomEvent<VoiceAssistantEvent>(event.type, {
+          detail: event,
+          bubbles: true,
+          composed: true,
+        }),
+      );
+    }
+  }
+
+  #apply() {
+    this.#assistant?.applyConfig(this.config);
+  }
+
+  #render(event: VoiceAssistantEvent) {
+    switch (event.type) {
+      case "statechange":
+        this.setAttribute("state", event.state.toLowerCase());
+        this.#showMuted(event.state === VoiceAssistantState.MUTED);
+        this.#status.textContent = STATUS[event.state];
+        break;
+      case "transcript":
+        this.#status.textContent = event.transcript;
+        break;
+      case "error":
+        this.#status.textContent = `Error: ${event.message}`;
+        break;
+    }
+  }
+
+  #showMuted(muted: boolean) {
+    this.#button.replaceChildren(
+      createElement(muted ? MicOff : Mic, { part: "icon" }),
+    );
+    this.#button.setAttribute("aria-label", muted ? "Unmute" : "Mute");
+  }
+
+  #emitLog(message: string, error: boolean) {
+    (error ? console.error : console.log)(message);
+    this.dispatchEvent(
+      new CustomEvent("log", { detail: { message, error } }),
+    );
+  }
+
+  #logError(message: string) {
+    this.#emitLog(message, true);
+  }
+}
+
+if (!customElements.get("voice-assistant")) {
+  customElements.define("voice-assistant", VoiceAssistantElement);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "voice-assistant": VoiceAssistantElement;
+  }
+}
@@ -8,124 +8,60 @@
  */
 
 import { createIcons, Mic, MicOff } from "lucide";
-import OpenAI from "openai";
+import { VoiceAssistant } from "./assistant";
+import { ConfigStore, DEFAULT_CONFIG, wakePhraseFor } from "./config";
+import type { Persona } from "./config";
+import { setupSettingsPanel, showConfigErrors } from "./settings-panel";
+import { HistoryStore } from "./history";
+import { setupHistoryView } from "./history-view";
+import { setupTelemetryView } from "./telemetry-view";
+import { setupTimerList } from "./timer-list";
+import { describeFiredTimer, Scheduler, timerTools } from "./timers";
+import {
+  loadMicrophoneOptions,
+  setupMicrophoneSettings,
+  startLevelMeter,
+} from "./mic-settings";
 import { VoiceAssistantState, VoiceClient } from "./web-speech";
-import type { CommandEvent, VoiceAssistantEvent } from "./web-speech";
-
-export function binary2base64(data: Uint8Array): string {
-  let binary = "";
-  for (let i = 0; i < data.length; i++) {
-    binary += String.fromCharCode(data[i]);
-  }
-  return btoa(binary);
-}
+import type { VoiceAssistantEvent } from "./web-speech";
 
 let lastLogTime = Date.now();
 /** @type {HTMLElement | null} */
 let logDiv: HTMLElement | null = null;
 
-function log(message: string | Node, timestamp?: number) {
+function log(message: string | Node, timestamp?: number, turn?: number) {
   const now = timestamp ?? Date.now();
   const diff = now - lastLogTime;
   lastLogTime = now;
-  const prefix = `+${diff}ms `;
+  const prefix = `+${diff}ms ` + (turn ? `[turn ${turn}] ` : "");
   const logMessage = prefix +
     (typeof message === "string" ? message : message.textContent);
   console.log(logMessage);
   if (logDiv) {
     const logEntry = document.createElement("div");
+    if (turn) logEntry.dataset.turn = String(turn);
     logEntry.append(prefix, message);
     logDiv.prepend(logEntry);
   }
 }
 
-function logError(message: string | Node, timestamp?: number) {
+function logError(message: string | Node, timestamp?: number, turn?: number) {
   const now = timestamp ?? Date.now();
   const diff = now - lastLogTime;
   lastLogTime = now;
-  const prefix = `+${diff}ms `;
+  const prefix = `+${diff}ms ` + (turn ? `[turn ${turn}] ` : "");
   const logMessage = prefix +
     (typeof message === "string" ? message : message.textContent);
   console.error(logMessage);
   if (logDiv) {
     const logEntry = document.createElement("div");
+    if (turn) logEntry.dataset.turn = String(turn);
     logEntry.style.color = "red";
     logEntry.append(prefix, message);
     logDiv.prepend(logEntry);
   }
 }
 
-class VoiceAssistant {
-  private llm_config: { api_key: string; base_url: string } | null | undefined =
-    undefined;
-
-  constructor(
-    public client: VoiceClient,
-  ) {}
-
-  async *events(): AsyncGenerator<VoiceAssistantEvent> {
-    for await (const event of this.client.events()) {
-      if (event.type === "command") {
-        this.#handleCommand(event);
-      }
-      yield event;
-    }
-  }
-
-  async #getConfig() {
-    if (this.llm_config !== undefined) return this.llm_config;
-    const apiKey = (document.getElementById("api-key-input") as HTMLInputElement)?.value;
-    if (apiKey) return { api_key: apiKey, base_url: "https://openrouter.ai/api/v1" };
-    try {
-      const res = await fetch("/api/llm-completion-config.json");
-      this.llm_config = res.ok ? await res.json() : null;
-    } catch { this.llm_config = null; }
-    return this.llm_config;
-  }
-
-  async #handleCommand(event: CommandEvent) {
-    if (!event.audioUrl) return;
-    try {
-      const config = await this.#getConfig();
-      if (!config?.api_key) throw new Error("LLM API key is missing.");
-
-      const audioBuffer = await fetch(event.audioUrl).then(res => res.arrayBuffer());
-      const openai = new OpenAI({ apiKey: config.api_key, baseURL: config.base_url, dangerouslyAllowBrowser: true });
-
-      const stream = await openai.chat.completions.create({
-        stream: true,
-        model: "mistralai/voxtral-small-24b-2507",
-        messages: [
-          { role: "system", content: `Current time: ${new Date().toISOString()}. Answer concisely in English.` },
-          { role: "user", content: [{ type: "input_audio", input_audio: { data: binary2base64(new Uint8Array(audioBuffer)), format: "wav" } }] }
-        ],
-      }) as any as AsyncIterable<any>;
-
-      let full = "", buf = "";
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
-        full += content; buf += content;
-        const parts = buf.split(/[.!?]\s+/);
-        while (parts.length > 1) {
-          const s = parts.shift()?.trim();
-          if (s) { log(`Streaming: ${s}`); await this.client.speak(s); }
-        }
-        buf = parts[0] || "";
-      }
-
-      if (buf.trim()) { log(`Final: ${buf.trim()}`); await this.client.speak(buf.trim()); }
-      if (!full) await this.client.speak("I'm sorry, I didn't get that.");
-    } catch (error: any) {
-      logError(`Error processing command with LLM: ${error}`);
-      log(`Error processing command: ${error}`);
-      const errorMessage = error?.message || "there was an error";
-      await this.client.speak(`I'm sorry, ${errorMessage}`);
-    } finally {
-      this.client.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
-    }
-  }
-}
-
 function updateUI(
   event: VoiceAssistantEvent,
   statusDiv: HTMLElement,
@@ -133,7 +69,14 @@ function updateUI(
   micIconOff: HTMLElement,
   client: VoiceClient,
   activationSound: HTMLAudioElement,
+  listeningHint: string,
+  personas: Persona[],
 ) {
+  const wakePhrase = event.type === "command"
+    ? event.wakePhrase
+    : client.activeWakePhrase;
+  const persona = personas.find((p) => p.name === wakePhrase);
+
   if (client.isMuted) {
     micIconOn.style.display = "none";
     micIconOff.style.display = "block";
@@ -173,30 +116,40 @@ function updateUI(
           event.extension || "wav"
         }`;
         messageNode.append(
-          "Got command, audio available for ",
+          persona ? `Got command for ${persona.name}, ` : "Got command, ",
+          event.intent ? `handled locally as ${event.intent.intent}, ` : "",
+          "audio available for ",
           playButton,
           " ",
           link,
         );
-        log(messageNode, event.timestamp);
+        log(messageNode, event.timestamp, event.turn);
       } else {
-        log("No command recorded.", event.timestamp);
+        log("No command recorded.", event.timestamp, event.turn);
       }
       break;
     case "statechange":
-      log(`Assistant state: ${event.state}`, event.timestamp);
+      log(`Assistant state: ${event.state}`, event.timestamp, event.turn);
       switch (event.state) {
         case VoiceAssistantState.LISTENING_FOR_WAKE_WORD:
           micIconOn.style.color = "red";
-          statusDiv.textContent = "Say 'OK Google' to start.";
+          statusDiv.textContent = listeningHint;
           break;
         case VoiceAssistantState.ACTIVATING:
           micIconOn.style.color = "orange";
-          statusDiv.textContent = "Heard you!";
+          statusDiv.textContent = persona
+            ? `${persona.name} heard you!`
+            : "Heard you!";
           break;
         case VoiceAssistantState.RECORDING_USER_SPEECH:
           micIconOn.style.color = "green";
-          statusDiv.textContent = "Listening...";
+          statusDiv.textContent = persona
+            ? `${persona.name} is listening...`
+            : "Listening...";
+          break;
+        case VoiceAssistantState.AWAITING_FOLLOW_UP:
+          micIconOn.style.color = "teal";
+          statusDiv.textContent = "Anything else? Just keep talking.";
           break;
         case VoiceAssistantState.PROCESSING_USER_SPEECH:
           micIconOn.style.color = "blue";
@@ -208,20 +161,33 @@ function updateUI(
           break;
       }
       if (event.state === VoiceAssistantState.ACTIVATING) {
-        activationSound.play().catch((e: any) =>
+        const sound = persona?.activationSound
+          ? new Audio(persona.activationSound)
+          : activationSound;
+        sound.play().catch((e: any) =>
           logError(`Activation sound failed to play: ${e}`)
         );
       }
       break;
+    case "wakeword":
+      if (event.accepted) {
+        log(
+          `Wake phrase "${event.text}" heard, score ${event.score.toFixed(2)}.`,
+          event.timestamp,
+          event.turn,
+        );
+      }
+      break;
     case "transcript":
       log(
         `Transcript (final=${event.isFinal}): ${event.transcript}`,
         event.timestamp,
+        event.turn,
       );
       statusDiv.textContent = event.transcript;
       break;
     case "error":
-      logError(`Assistant error: ${event.message}`, event.timestamp);
+      logError(`Assistant error: ${event.message}`, event.timestamp, event.turn);
       if (event.error) {
         logError(`Original error object: ${event.error}`);
         if (event.error.stack) {
@@ -231,11 +197,34 @@ function updateUI(
       statusDiv.textContent = `Error: ${event.message}`;
       break;
     case "speakstart":
-      log(`Assistant speaking: "${event.text}"`, event.timestamp);
+      log(`Assistant speaking: "${event.text}"`, event.timestamp, event.turn);
       statusDiv.textContent = `Speaking...`;
       break;
+    case "audiostart":
+      log("Speech audible.", event.timestamp, event.turn);
+      break;
     case "speakend":
-      log("Assistant finished speaking.", event.timestamp);
+      log("Assistant finished speaking.", event.timestamp, event.turn);
+      break;
+    case "responseend":
+      log(
+        event.interrupted ? "Response cut short." : "Response finished.",
+        event.timestamp,
+        event.turn,
+      );
+      break;
+    case "micstatechange":
+      log(`Microphone: ${event.state}`, event.timestamp, event.turn);
+      if (event.state === "recovering") {
+        statusDiv.textContent = "Reconnecting microphone...";
+      }
+      break;
+    case "interrupted":
+      log(
+        `Interrupted by ${event.reason}: ${event.transcript}`,
+        event.timestamp,
+        event.turn,
+      );
       break;
   }
 }
@@ -264,49 +253,125 @@ window.addEventListener("beforeunload", () => {
 
   try {
     const isMobile = true; ///Mobi/i.test(navigator.userAgent);
-    const client = await VoiceClient.init({
-      wakePhraseRegex: /(?:ok|okay)[^a-z]+google/i,
+    const store = await ConfigStore.load();
+    for (const error of store.errors) logError(`Config: ${error.message}`);
+    showConfigErrors(store.errors);
+
+    const assistant = await VoiceAssistant.create(store.config, {
       initialState: isMobile
         ? VoiceAssistantState.MUTED
         : VoiceAssistantState.LISTENING_FOR_WAKE_WORD,
+      microphone: loadMicrophoneOptions,
       log,
       logError,
     });
-    const assistant = new VoiceAssistant(client);
+    setupSettingsPanel(
+      store,
+      () => assistant.client.voices,
+      (config) => assistant.applyConfig(config),
+    );
+    const scheduler = await Scheduler.load(logError);
+    for (const tool of timerTools(scheduler)) assistant.tools.register(tool);
+    scheduler.onfire = (timer) => {
+      log(`${timer.kind === "timer" ? "Timer" : "Reminder"} went off: ${timer.label}`);
+      assistant.announce(describeFiredTimer(timer), () =>
+        activationSound?.play().catch((e: any) =>
+          logError(`Timer sound failed to play: ${e}`)
+        ));
+    };
+    setupTimerList(scheduler, logError);
+    assistant.onheldannouncement = (text) => {
+      if (statusDiv) statusDiv.textContent = `${text} Tap mic to hear it.`;
+    };
+
+    assistant.history = await HistoryStore.open(
+      store.config.historyLimit,
+      logError,
+    );
+    setupTelemetryView(assistant.telemetry);
+    setupHistoryView(
+      assistant.history,
+      (text) => assistant.client.speak(text).catch((e) =>
+        logError(`Could not replay reply: ${e}`)
+      ),
+      logError,
+    );
+
+    const refreshDevices = setupMicrophoneSettings(
+      () => assistant.client,
+      logError,
+    );
+    const levelMeter = document.getElementById(
+      "level-meter",
+    ) as HTMLCanvasElement | null;
+    if (levelMeter && micIconOn) {
+      startLevelMeter(levelMeter, () => assistant.client, micIconOn);
+    }
     log("Voice assistant initialized. Click mic to unmute.");
 
+    const speechControls = document.getElementById("speech-controls");
+    const pauseButton = document.getElementById("speech-pause");
+    pauseButton?.addEventListener("click", () => {
+      if (assistant.client.isSpeechPaused) assistant.client.resumeSpeech();
+      else assistant.client.pauseSpeech();
+      pauseButton.textContent = assistant.client.isSpeechPaused
+        ? "Resume"
+        : "Pause";
+    });
+    document.getElementById("speech-skip")?.addEventListener(
+      "click",
+      () => assistant.client.skipSpeech(),
+    );
+    document.getElementById("speech-stop")?.addEventListener(
+      "click",
+      () => assistant.stopSpeaking(),
+    );
+
     if (micIconOn) {
       micIconOn.addEventListener("click", async () => {
-        client.toggleMute();
-        if (!client.isMuted) {
+        assistant.client.toggleMute();
+        if (!assistant.client.isMuted) {
           activationSound?.play().catch((e: any) =>
             logError("Sound failed on unmute", e)
           );
-          await client.speak("listening");
+          await assistant.client.speak("listening");
         }
       });
     }
     if (micIconOff) {
       micIconOff.addEventListener("click", async () => {
-        client.toggleMute();
-        if (!client.isMuted) {
+        assistant.client.toggleMute();
+        if (!assistant.client.isMuted) {
           activationSound?.play().catch((e: any) =>
             logError(`Sound failed on unmute: ${e}`)
           );
-          await client.speak("listening");
+          await assistant.client.speak("listening");
         }
       });
     }
 
     for await (const event of assistant.events()) {
+      if (speechControls && event.type === "statechange") {
+        speechControls.hidden = event.state !== VoiceAssistantState.SPEAKING;
+        if (pauseButton) pauseButton.textContent = "Pause";
+      }
+      if (event.type === "micstatechange" && event.state === "open") {
+        refreshDevices().catch((e) =>
+          logError(`Could not list microphones: ${e}`)
+        );
+      }
       if (statusDiv && micIconOn && micIconOff && activationSound) {
         updateUI(
           event,
           statusDiv,
           micIconOn,
           micIconOff,
-          client,
+          assistant.client,
           activationSound,
+          wakePhraseFor(assistant.config) === DEFAULT_CONFIG.wakePhrase
+            ? "Say 'OK Google' to start."
+            : "Say the wake phrase to start.",
+          assistant.config.personas,
         );
       }
     }
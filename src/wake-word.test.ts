@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { describe, expect, it } from "vitest";
+import { phoneticKey, spokenForms, WakeWordMatcher } from "./wake-word";
+import type { WakeWordOptions } from "./wake-word";
+
+const GOOGLE = /(?:ok|okay)[^a-z]+google/i;
+
+function matcher(options: WakeWordOptions = {}) {
+  return new WakeWordMatcher(
+    new Map([["default", GOOGLE], ["chef", /(?:ok|okay)[^a-z]+chef/i]]),
+    { cooldownMs: 0, ...options },
+  );
+}
+
+/** Whether the transcript wakes a fresh matcher. */
+function wakes(transcript: string, confidence = 0, options?: WakeWordOptions) {
+  return matcher(options).match([{ transcript, confidence }])?.accepted ??
+    false;
+}
+
+describe("spokenForms", () => {
+  it.each([
+    [GOOGLE, ["ok google", "okay google"]],
+    [/hey\s+(?:jarvis|friday)/, ["hey jarvis", "hey friday"]],
+    [/\bok(?:ay)? computer\b/, ["okay computer", "ok computer"]],
+    [/hello,? there/, ["hello there"]],
+  ])("expands %s", (regex, expected) => {
+    expect(spokenForms(regex).sort()).toEqual([...expected].sort());
+  });
+
+  it.each([/ok\d+/, /hey (?<name>\w+)/, /a{2}/])("gives up on %s", (regex) => {
+    expect(() => spokenForms(regex)).toThrow();
+  });
+});
+
+describe("phoneticKey", () => {
+  it.each([
+    ["okay", "ok"],
+    ["ok", "ok"],
+    ["googles", "ggl"],
+    ["google", "ggl"],
+    ["phone", "fn"],
+    ["café", "kf"],
+    ["привет", "привет"],
+  ])("keys %s as %s", (word, key) => {
+    expect(phoneticKey(word)).toBe(key);
+  });
+});
+
+describe("WakeWordMatcher", () => {
+  it.each([
+    "ok google",
+    "Okay, Google, what's the weather?",
+    "okay googles",
+    "okey google",
+    "okay gogle",
+    "ok googl",
+    "o k google",
+  ])("wakes up for %j", (transcript) => {
+    expect(wakes(transcript)).toBe(true);
+    expect(wakes(transcript, 0.9)).toBe(true);
+  });
+
+  it.each([
+    "hey google",
+    "okay good",
+    "okay cool",
+    "go google",
+    "ok doodle",
+    "google",
+    "okay guru",
+    "hey googles",
+  ])("ignores the near miss %j", (transcript) => {
+    expect(wakes(transcript)).toBe(false);
+    expect(wakes(transcript, 0.9)).toBe(false);
+  });
+
+  it.each(["what's the weather", "ok", "good morning", ""])(
+    "doesn't report %j at all",
+    (transcript) => {
+      expect(matcher().match([{ transcript, confidence: 0.9 }]))
+        .toBeUndefined();
+    },
+  );
+
+  it("lets near misses through at sensitivity 1", () => {
+    expect(wakes("hey google", 0, { sensitivity: 1 })).toBe(true);
+    expect(wakes("hey google", 0.9, { sensitivity: 1 })).toBe(true);
+  });
+
+  it("takes only confident, near-exact matches at sensitivity 0", () => {
+    expect(wakes("ok google", 0, { sensitivity: 0 })).toBe(true);
+    expect(wakes("ok google", 0.95, { sensitivity: 0 })).toBe(true);
+    expect(wakes("ok google", 0.8, { sensitivity: 0 })).toBe(false);
+    expect(wakes("okay gogle", 0, { sensitivity: 0 })).toBe(false);
+  });
+
+  it("counts an unknown confidence as full only for exact matches", () => {
+    const m = matcher();
+    expect(m.match([{ transcript: "ok google", confidence: 0 }]))
+      .toMatchObject({ similarity: 1, confidence: 1, score: 1 });
+    const fuzzy = m.match([{ transcript: "okay gogle", confidence: 0 }])!;
+    expect(fuzzy.confidence).toBeLessThan(1);
+    expect(fuzzy.score).toBeLessThan(fuzzy.similarity);
+  });
+
+  it("scales the score with the recognizer's confidence", () => {
+    const m = matcher();
+    expect(m.match([{ transcript: "ok google", confidence: 0.6 }]))
+      .toMatchObject({ score: 0.6, accepted: false, reason: "low-score" });
+  });
+
+  it("picks the best of the alternatives", () => {
+    const match = matcher().match([
+      { transcript: "okay good", confidence: 0.9 },
+      { transcript: "okay google", confidence: 0.8 },
+    ]);
+    expect(match).toMatchObject({
+      key: "default",
+      transcript: "okay google",
+      accepted: true,
+    });
+  });
+
+  it("tells the wake phrases apart", () => {
+    expect(matcher().match([{ transcript: "okay chef", confidence: 0 }]))
+      .toMatchObject({ key: "chef", text: "okay chef", accepted: true });
+  });
+
+  it("never wakes up for a negative phrase", () => {
+    const m = matcher({ negativePhrases: [/google maps/i] });
+    expect(m.match([{ transcript: "ok google maps", confidence: 0.9 }]))
+      .toMatchObject({ accepted: false, reason: "negative" });
+  });
+
+  it("ignores the wake phrase during the cooldown", () => {
+    const m = matcher({ cooldownMs: 2000 });
+    const heard = [{ transcript: "ok google", confidence: 0.9 }];
+    expect(m.match(heard, 1000)?.accepted).toBe(true);
+    expect(m.match(heard, 2999)).toMatchObject({
+      accepted: false,
+      reason: "cooldown",
+    });
+    expect(m.match(heard, 3000)?.accepted).toBe(true);
+  });
+});
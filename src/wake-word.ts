@@ -0,0 +1,299 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/** One way the recognizer heard an utterance, e.g. an alternative. */
+export interface WakeCandidate {
+  transcript: string;
+  /** 0 to 1; browsers report 0 when they don't know. */
+  confidence: number;
+}
+
+/** The best wake phrase match among a result's candidates. */
+export interface WakeWordMatch {
+  /** Key of the wake phrase, see VoiceClient.init's wakePhrases. */
+  key: string;
+  /** The words that matched. */
+  text: string;
+  transcript: string;
+  /** 1 for a regex match, less for sound-alikes. */
+  similarity: number;
+  confidence: number;
+  /** similarity × confidence, compared to minScore. */
+  score: number;
+  accepted: boolean;
+  /** Why it wasn't accepted. */
+  reason?: "low-score" | "negative" | "cooldown";
+}
+
+export interface WakeWordOptions {
+  /**
+   * 0 to 1: higher accepts fuzzier matches and less confident recognition,
+   * lower means fewer false activations. Default 0.5, where "hey google"
+   * doesn't pass for "ok google".
+   */
+  sensitivity?: number;
+  /** Matches are ignored for this long after an activation. Default 2000. */
+  cooldownMs?: number;
+  /** Speech matching any of these never activates, e.g. "ok google maps". */
+  negativePhrases?: RegExp[];
+}
+
+/** Matches below this similarity aren't reported at all. */
+const NEAR_MISS = 0.5;
+/**
+ * Confidence assumed for a sound-alike when the browser reports none, as for
+ * most interim results. Exact matches count as fully confident.
+ */
+const UNKNOWN_CONFIDENCE = 0.85;
+/** Spoken forms expanded from a wake phrase regex, at most. */
+const MAX_FORMS = 64;
+
+/**
+ * What a wake phrase regex sounds like, e.g. "(?:ok|okay)[^a-z]+jarvis" is
+ * "ok jarvis" and "okay jarvis". Handles literals, alternatives, optional
+ * parts and separators; throws for anything else, which then only matches
+ * exactly.
+ */
+export function spokenForms(regex: RegExp): string[] {
+  const source = regex.source;
+  let pos = 0;
+
+  const product = (a: string[], b: string[]) => {
+    const out = a.flatMap((x) => b.map((y) => x + y));
+    if (out.length > MAX_FORMS) throw new Error("too many forms");
+    return out;
+  };
+
+  const atom = (): string[] => {
+    const c = source[pos++];
+    if (c === "(") {
+      if (source[pos] === "?") {
+        if (source[pos + 1] !== ":") throw new Error("unsupported group");
+        pos += 2;
+      }
+      const forms = alternatives();
+      if (source[pos++] !== ")") throw new Error("unbalanced group");
+      return forms;
+    }
+    if (c === "[") {
+      const end = source.indexOf("]", pos + 1);
+      if (end < 0) throw new Error("unbalanced class");
+      const body = source.slice(pos, end);
+      pos = end + 1;
+      // [^a-z], [\s,] and the like separate words; [sz] is a letter.
+      if (body.startsWith("^") || /\\s|[ ,.!?-]/.test(body)) return [" "];
+      return [body.replace(/\\/g, "")[0] ?? ""];
+    }
+    if (c === "\\") {
+      const e = source[pos++];
+      if (e === "b" || e === "B") return [""];
+      if (e === "s" || e === "W") return [" "];
+      if (/[dwDSp]/.test(e)) throw new Error("unsupported escape");
+      return [e];
+    }
+    if (c === "^" || c === "$") return [""];
+    if (c === ".") return [" "];
+    return [c];
+  };
+
+  const sequence = (): string[] => {
+    let forms = [""];
+    while (pos < source.length && source[pos] !== "|" && source[pos] !== ")") {
+      let options = atom();
+      const q = source[pos];
+      if (q === "?" || q === "*") {
+        options = [...options, ""];
+        pos++;
+      } else if (q === "+") {
+        pos++;
+      } else if (q === "{") {
+        throw new Error("unsupported quantifier");
+      }
+      // Lazy quantifiers sound the same.
+      if (source[pos] === "?") pos++;
+      forms = product(forms, options);
+    }
+    return forms;
+  };
+
+  const alternatives = (): string[] => {
+    const forms = sequence();
+    while (source[pos] === "|") {
+      pos++;
+      forms.push(...sequence());
+      if (forms.length > MAX_FORMS) throw new Error("too many forms");
+    }
+    return forms;
+  };
+
+  const forms = alternatives();
+  if (pos < source.length) throw new Error("unbalanced group");
+  return [...new Set(forms.map(words).map((w) => w.join(" ")))]
+    .filter(Boolean);
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+}
+
+/**
+ * A rough sound-alike key: "okay" and "ok" both become "ok", "googles" and
+ * "google" both "ggl". Vowels after the first letter, doubled letters, accents
+ * and a plural s don't count. Words in other scripts are kept as they are.
+ */
+export function phoneticKey(word: string): string {
+  const lower = word.toLowerCase();
+  if (!/[a-z]/.test(lower.normalize("NFD"))) return lower;
+  let w = lower.normalize("NFD").replace(/[^a-z]/g, "");
+  if (w.length > 3) w = w.replace(/'?s$/, "");
+  w = w
+    .replace(/ph/g, "f")
+    .replace(/ck|q|c(?=[aou]|$)/g, "k")
+    .replace(/c/g, "s")
+    .replace(/x/g, "ks")
+    .replace(/z/g, "s")
+    .replace(/(.)\1+/g, "$1");
+  return w[0] + w.slice(1).replace(/[aeiouyhw]/g, "");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length ? 1 - editDistance(a, b) / length : 1;
+}
+
+/**
+ * Finds wake phrases in speech recognition results. Every alternative is
+ * tried, exactly by regex and then by sound, and scored with the
+ * recognizer's confidence. After an activation, matches are ignored for a
+ * while so the same words can't trigger twice.
+ */
+export class WakeWordMatcher {
+  #phrases: Map<string, RegExp>;
+  #forms = new Map<string, { words: string[]; keys: string[] }[]>();
+  #negatives: RegExp[];
+  #cooldownMs: number;
+  #cooldownUntil = 0;
+  /** Lowest score that activates. */
+  readonly minScore: number;
+
+  constructor(
+    phrases: Map<string, RegExp>,
+    { sensitivity = 0.5, cooldownMs = 2000, negativePhrases = [] }:
+      WakeWordOptions = {},
+  ) {
+    this.#phrases = phrases;
+    this.#negatives = negativePhrases;
+    this.#cooldownMs = cooldownMs;
+    this.minScore = 0.9 - 0.3 * Math.min(1, Math.max(0, sensitivity));
+    for (const [key, regex] of phrases) {
+      try {
+        this.#forms.set(
+          key,
+          spokenForms(regex).map((form) => {
+            const w = form.split(" ");
+            return { words: w, keys: w.map(phoneticKey) };
+          }),
+        );
+      } catch {
+        // Too clever to pronounce; only exact matches then.
+      }
+    }
+  }
+
+  /**
+   * The best match, accepted or not, or undefined if nothing came close.
+   * Starts the cooldown when accepted.
+   */
+  match(candidates: WakeCandidate[], now = Date.now()): WakeWordMatch | undefined {
+    let best: WakeWordMatch | undefined;
+    for (const candidate of candidates) {
+      const found = this.#matchOne(candidate);
+      if (found && (!best || found.score > best.score)) best = found;
+    }
+    if (!best) return;
+    if (this.#negatives.some((regex) => regex.test(best.transcript))) {
+      best.reason = "negative";
+    } else if (best.score < this.minScore) {
+      best.reason = "low-score";
+    } else if (now < this.#cooldownUntil) {
+      best.reason = "cooldown";
+    } else {
+      best.accepted = true;
+      this.#cooldownUntil = now + this.#cooldownMs;
+    }
+    return best;
+  }
+
+  #matchOne({ transcript, confidence }: WakeCandidate) {
+    let best: WakeWordMatch | undefined;
+    const consider = (key: string, text: string, similarity: number) => {
+      if (similarity < NEAR_MISS) return;
+      // 0 means the browser doesn't know.
+      const conf = confidence || (similarity === 1 ? 1 : UNKNOWN_CONFIDENCE);
+      const score = similarity * conf;
+      if (best && score <= best.score) return;
+      best = {
+        key,
+        text,
+        transcript,
+        similarity,
+        confidence: conf,
+        score,
+        accepted: false,
+      };
+    };
+
+    for (const [key, regex] of this.#phrases) {
+      const exact = transcript.match(regex);
+      if (exact) {
+        consider(key, exact[0], 1);
+        continue;
+      }
+      const heard = words(transcript);
+      const heardKeys = heard.map(phoneticKey);
+      for (const form of this.#forms.get(key) ?? []) {
+        const target = form.keys.join(" ");
+        // Windows a word shorter or longer, for split or merged words.
+        for (let size = form.words.length - 1; size <= form.words.length + 1; size++) {
+          if (size < 1) continue;
+          for (let start = 0; start + size <= heard.length; start++) {
+            const window = heardKeys.slice(start, start + size).join(" ");
+            const text = heard.slice(start, start + size).join(" ");
+            // Sounding alike counts a little less than spelling alike.
+            consider(
+              key,
+              text,
+              Math.max(
+                similarity(text, form.words.join(" ")),
+                0.95 * similarity(window, target),
+              ),
+            );
+          }
+        }
+      }
+    }
+    return best;
+  }
+}
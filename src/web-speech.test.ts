@@ -0,0 +1,488 @@
+/**
+ * @license
+ * Copyright (c) 2025, Taras Glek
+ * All rights reserved.
+ *
+ * This source code is licensed under the BSD-style license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFakeBackends } from "./fake-speech";
+import { VoiceAssistantState, VoiceClient } from "./web-speech";
+import type { CommandEvent, VoiceAssistantEvent } from "./web-speech";
+
+const {
+  LISTENING_FOR_WAKE_WORD,
+  ACTIVATING,
+  RECORDING_USER_SPEECH,
+  AWAITING_FOLLOW_UP,
+  PROCESSING_USER_SPEECH,
+  MUTED,
+  SPEAKING,
+} = VoiceAssistantState;
+
+type Fakes = ReturnType<typeof createFakeBackends>;
+
+/** A client on fake backends, with every event it emits collected. */
+async function setup(
+  {
+    fakes = {},
+    ...options
+  }: Parameters<typeof VoiceClient.init>[0] & {
+    fakes?: Parameters<typeof createFakeBackends>[0];
+  } = {},
+) {
+  const backends: Fakes = createFakeBackends({
+    synthesis: { autoEndAfterMs: 100 },
+    ...fakes,
+  });
+  const client = await VoiceClient.init({
+    backends: backends.backends,
+    log: () => {},
+    logError: () => {},
+    ...options,
+  });
+  const events: VoiceAssistantEvent[] = [];
+  (async () => {
+    for await (const event of client.events()) events.push(event);
+  })();
+  await vi.advanceTimersByTimeAsync(0);
+  return {
+    ...backends,
+    client,
+    events,
+    states: () =>
+      events.flatMap((e) => e.type === "statechange" ? [e.state] : []),
+    commands: () =>
+      events.filter((e): e is CommandEvent => e.type === "command"),
+  };
+}
+
+/** Says the wake phrase and waits until recording has started. */
+async function wake({ recognition }: Fakes) {
+  recognition.emitResult("ok metallica");
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+/** Resolves a call that waits on the fake recorder. */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.advanceTimersByTimeAsync(0);
+  return promise;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("VoiceClient", () => {
+  it("goes from wake phrase to recording, command and speech", async () => {
+    const t = await setup();
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+
+    await wake(t);
+    expect(t.states()).toEqual([
+      LISTENING_FOR_WAKE_WORD,
+      ACTIVATING,
+      RECORDING_USER_SPEECH,
+    ]);
+
+    t.recognition.emitResult({ transcript: "what time is it", isFinal: true });
+    await vi.advanceTimersByTimeAsync(1700);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    const [command] = t.commands();
+    expect(command.transcript).toBe("what time is it");
+    expect(command.audioUrl).toMatch(/^blob:/);
+    expect(command.extension).toBe("wav");
+    expect(command.turn).toBe(1);
+    expect(command.signal.aborted).toBe(false);
+
+    t.client.queueSpeech("It's noon.", { signal: command.signal });
+    t.client.queueSpeech("Anything else?", { signal: command.signal });
+    const done = t.client.finishResponse();
+    expect(t.client.state).toBe(SPEAKING);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await done).toBe(true);
+    expect(t.synthesis.spoken).toEqual(["It's noon.", "Anything else?"]);
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.events.at(-1)).toMatchObject({
+      type: "responseend",
+      interrupted: false,
+    });
+    t.client.dispose();
+  });
+
+  it("ends recording 1.7s after the last speech", async () => {
+    const t = await setup();
+    await wake(t);
+    t.recognition.emitResult("what time");
+    await vi.advanceTimersByTimeAsync(1000);
+    // Each result restarts the timeout.
+    t.recognition.emitResult({ transcript: "what time is it", isFinal: true });
+    await vi.advanceTimersByTimeAsync(1699);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    expect(t.commands()).toHaveLength(1);
+    t.client.dispose();
+  });
+
+  it("ends recording 5s after results without words", async () => {
+    const t = await setup();
+    await wake(t);
+    t.recognition.emitResult("");
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    expect(t.commands()[0].transcript).toBe("");
+    t.client.dispose();
+  });
+
+  it("gives up 15s after the wake phrase if nothing is said", async () => {
+    const t = await setup();
+    await wake(t);
+    await vi.advanceTimersByTimeAsync(14999);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    expect(t.commands()).toHaveLength(1);
+    t.client.dispose();
+  });
+
+  it("keeps recording past 15s once speech started", async () => {
+    const t = await setup({ endpointing: { endOfSpeechTimeoutMs: 20000 } });
+    await wake(t);
+    t.recognition.emitSpeechStart();
+    t.recognition.emitResult("tell me a long story");
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    t.client.dispose();
+  });
+
+  it("ends recording at the maximum utterance length", async () => {
+    const t = await setup({ endpointing: { maxUtteranceMs: 10000 } });
+    await wake(t);
+    for (let i = 1; i <= 12; i++) {
+      t.recognition.emitResult(`on and on ${i}`);
+      await vi.advanceTimersByTimeAsync(1000);
+      if (i < 10) expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    }
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    expect(t.commands()).toHaveLength(1);
+    t.client.dispose();
+  });
+
+  it("uses the configured timeouts", async () => {
+    const t = await setup({
+      endpointing: { endOfSpeechTimeoutMs: 500, noSpeechAfterWakeWordTimeoutMs: 3000 },
+    });
+    await wake(t);
+    t.recognition.emitResult("hello");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+
+    t.client.state = LISTENING_FOR_WAKE_WORD;
+    await vi.advanceTimersByTimeAsync(2000);
+    await wake(t);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    expect(t.commands()).toHaveLength(2);
+    t.client.dispose();
+  });
+
+  it("drops the wake phrase from the transcript", async () => {
+    const t = await setup();
+    t.recognition.emitResult("ok metallica");
+    await vi.advanceTimersByTimeAsync(0);
+    t.recognition.emitResult({
+      transcript: "ok metallica, turn on the lights",
+      isFinal: true,
+    });
+    await vi.advanceTimersByTimeAsync(1700);
+    expect(t.commands()[0].transcript).toBe("turn on the lights");
+    t.client.dispose();
+  });
+
+  it("ignores speech without the wake phrase", async () => {
+    const t = await setup();
+    t.recognition.emitResult({ transcript: "what time is it", isFinal: true });
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(t.states()).toEqual([LISTENING_FOR_WAKE_WORD]);
+    expect(t.recorder.recordings).toHaveLength(0);
+    t.client.dispose();
+  });
+
+  it("mutes and unmutes", async () => {
+    const t = await setup();
+    t.client.toggleMute();
+    expect(t.client.state).toBe(MUTED);
+    expect(t.recognition.running).toBe(false);
+    t.recognition.emitResult("ok metallica");
+    await vi.advanceTimersByTimeAsync(100);
+    expect(t.client.state).toBe(MUTED);
+
+    t.client.toggleMute();
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.recognition.running).toBe(true);
+    t.client.dispose();
+  });
+
+  it("starts muted if asked to", async () => {
+    const t = await setup({ initialState: MUTED });
+    expect(t.states()).toEqual([MUTED]);
+    t.client.dispose();
+  });
+
+  it("cancels the recording when muted", async () => {
+    const t = await setup();
+    await wake(t);
+    t.client.toggleMute();
+    expect(t.client.state).toBe(MUTED);
+    expect(t.recorder.recordings[0].stopped).toBe(true);
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(t.commands()).toHaveLength(0);
+    t.client.dispose();
+  });
+
+  it("stays muted when muted while the mic opens", async () => {
+    const t = await setup({ fakes: { recorder: { startDelayMs: 200 } } });
+    t.recognition.emitResult("ok metallica");
+    expect(t.client.state).toBe(ACTIVATING);
+    t.client.toggleMute();
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(t.client.state).toBe(MUTED);
+    expect(t.states()).toEqual([LISTENING_FOR_WAKE_WORD, ACTIVATING, MUTED]);
+    expect(t.recorder.recordings[0].stopped).toBe(true);
+    expect(t.commands()).toHaveLength(0);
+    t.client.dispose();
+  });
+
+  it("goes back to the wake phrase when a turn is cancelled", async () => {
+    const t = await setup();
+    expect(t.client.submitText("what's the weather")).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    t.client.cancelTurn();
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.commands()[0].signal.aborted).toBe(true);
+    await wake(t);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    t.client.dispose();
+  });
+
+  it("stops speaking when muted", async () => {
+    const t = await setup({ fakes: { synthesis: {} } });
+    const signal = new AbortController().signal;
+    t.client.queueSpeech("A long answer.", { signal });
+    const done = t.client.finishResponse();
+    expect(t.client.state).toBe(SPEAKING);
+    t.client.toggleMute();
+    expect(await done).toBe(false);
+    expect(t.client.state).toBe(MUTED);
+    t.client.dispose();
+  });
+
+  it.each([
+    ["switches to a voice speaking the sentence's language", "Fake German"],
+    ["keeps a voice without a language", "Any"],
+  ])("%s", async (_, expected) => {
+    const t = await setup({ fakes: { synthesis: {} } });
+    t.synthesis.voices.push({ name: "Any", lang: "" });
+    t.client.speechDefaults = {
+      voice: expected === "Any" ? "Any" : "Fake English",
+      lang: "en-US",
+      detectLanguage: true,
+    };
+    t.client.queueSpeech("Wie spät ist es jetzt?", {});
+    expect(t.synthesis.current?.voice?.name).toBe(expected);
+    t.client.dispose();
+  });
+
+  it("leaves a response that's still open to its owner", async () => {
+    const t = await setup();
+    const { signal } = new AbortController();
+    t.client.queueSpeech("Part one.", { signal });
+    let spoken = false;
+    t.client.speak("Your timer is done.").then(() => spoken = true);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(t.synthesis.spoken).toEqual(["Part one.", "Your timer is done."]);
+    expect(spoken).toBe(false);
+
+    t.client.queueSpeech("Part two.", { signal });
+    const done = t.client.finishResponse();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await done).toBe(true);
+    expect(spoken).toBe(true);
+    expect(t.synthesis.spoken.at(-1)).toBe("Part two.");
+    expect(t.events.filter((e) => e.type === "responseend")).toHaveLength(1);
+    t.client.dispose();
+  });
+
+  it("ends the follow-up window when speaking", async () => {
+    const t = await setup();
+    await settle(t.client.awaitFollowUp());
+    expect(t.client.state).toBe(AWAITING_FOLLOW_UP);
+
+    const spoken = t.client.speak("Your timer is done.");
+    expect(t.client.state).toBe(SPEAKING);
+    expect(t.recorder.recordings[0].stopped).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await spoken;
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+
+    await vi.advanceTimersByTimeAsync(8000);
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    await wake(t);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    expect(t.recorder.recordings[1].stopped).toBe(false);
+    t.client.dispose();
+  });
+
+  it("listens for a follow-up after a reply", async () => {
+    const t = await setup({ followUpWindowMs: 8000 });
+    await settle(t.client.awaitFollowUp());
+    expect(t.client.state).toBe(AWAITING_FOLLOW_UP);
+
+    t.recognition.emitResult({ transcript: "and tomorrow?", isFinal: true });
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    await vi.advanceTimersByTimeAsync(1700);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    expect(t.commands()[0]).toMatchObject({
+      transcript: "and tomorrow?",
+      turn: 1,
+    });
+    t.client.dispose();
+  });
+
+  it("goes back to the wake phrase when no follow-up comes", async () => {
+    const t = await setup({ followUpWindowMs: 8000 });
+    await settle(t.client.awaitFollowUp());
+    await vi.advanceTimersByTimeAsync(7999);
+    expect(t.client.state).toBe(AWAITING_FOLLOW_UP);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.recorder.recordings[0].stopped).toBe(true);
+    expect(t.commands()).toHaveLength(0);
+    t.client.dispose();
+  });
+
+  it("skips the follow-up window when it's 0", async () => {
+    const t = await setup({ followUpWindowMs: 0 });
+    await settle(t.client.awaitFollowUp());
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    t.client.dispose();
+  });
+
+  it("reports a follow-up the microphone can't record", async () => {
+    const t = await setup();
+    t.recorder.startError = new Error("Permission denied");
+    await settle(t.client.awaitFollowUp());
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.events.find((e) => e.type === "error")).toMatchObject({
+      message: "Could not record a follow-up: Permission denied",
+    });
+    t.client.dispose();
+  });
+
+  it("reports a command the microphone can't record", async () => {
+    const t = await setup();
+    t.recorder.startError = new Error("Permission denied");
+    await wake(t);
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.events.find((e) => e.type === "error")).toMatchObject({
+      message: "Could not record a command: Permission denied",
+    });
+
+    t.recorder.startError = undefined;
+    await vi.advanceTimersByTimeAsync(2000);
+    await wake(t);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    t.client.dispose();
+  });
+
+  it("activates and takes typed prompts without the wake phrase", async () => {
+    const t = await setup();
+    expect(await settle(t.client.activate())).toBe(true);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    expect(await t.client.activate()).toBe(false);
+    expect(t.client.submitText("hello")).toBe(false);
+    t.client.toggleMute();
+    await vi.advanceTimersByTimeAsync(0);
+    t.client.toggleMute();
+
+    expect(t.client.submitText("what's the weather")).toBe(true);
+    expect(t.client.state).toBe(PROCESSING_USER_SPEECH);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(t.commands().at(-1)).toMatchObject({
+      transcript: "what's the weather",
+      typed: true,
+      audioUrl: null,
+    });
+    await expect(t.client.activate("nobody")).rejects.toThrow(/Unknown/);
+    t.client.dispose();
+  });
+
+  it("routes wake phrases to their keys", async () => {
+    const t = await setup({
+      wakePhrases: { jarvis: /(?:ok|okay)[^a-z]+jarvis/i },
+    });
+    t.recognition.emitResult("okay jarvis");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(t.client.activeWakePhrase).toBe("jarvis");
+    t.recognition.emitResult({ transcript: "open the file", isFinal: true });
+    await vi.advanceTimersByTimeAsync(1700);
+    expect(t.commands()[0].wakePhrase).toBe("jarvis");
+    t.client.dispose();
+  });
+
+  it("lets a stop phrase interrupt speech with barge-in", async () => {
+    const t = await setup({ bargeIn: true, fakes: { synthesis: {} } });
+    t.client.queueSpeech("A very long answer.");
+    const done = t.client.finishResponse();
+    expect(t.client.state).toBe(SPEAKING);
+
+    t.recognition.emitResult({ transcript: "stop", isFinal: true });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await done).toBe(false);
+    expect(t.client.state).toBe(LISTENING_FOR_WAKE_WORD);
+    expect(t.events.find((e) => e.type === "interrupted")).toMatchObject({
+      reason: "stopword",
+    });
+    t.client.dispose();
+  });
+
+  it("starts a new turn when the wake phrase interrupts speech", async () => {
+    const t = await setup({ bargeIn: true, fakes: { synthesis: {} } });
+    await wake(t);
+    t.recognition.emitResult({ transcript: "tell me a story", isFinal: true });
+    await vi.advanceTimersByTimeAsync(1700);
+    const [first] = t.commands();
+    t.client.queueSpeech("Once upon a time.", { signal: first.signal });
+    // Past the wake phrase cooldown.
+    await vi.advanceTimersByTimeAsync(1000);
+
+    t.recognition.emitResult("ok metallica");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first.signal.aborted).toBe(true);
+    expect(t.client.state).toBe(RECORDING_USER_SPEECH);
+    expect(t.client.turn).toBe(2);
+    t.client.dispose();
+  });
+
+  it("ends events() when disposed", async () => {
+    const { backends } = createFakeBackends();
+    const client = await VoiceClient.init({ backends, log: () => {} });
+    const seen: string[] = [];
+    const pump = (async () => {
+      for await (const event of client.events()) seen.push(event.type);
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+    client.dispose();
+    await pump;
+    expect(seen).toEqual(["statechange"]);
+  });
+});
@@ -1,10 +1,22 @@
-import * as emr from "extendable-media-recorder";
-import * as wavEncoder from "extendable-media-recorder-wav-encoder";
+import { VoiceActivityDetector } from "./vad";
+import type { VadOptions } from "./vad";
+import { AudioRecorder } from "./audio-capture";
+import type { IntentMatch } from "./intents";
+import { detectLanguage, sameLanguage, voiceForLanguage } from "./language";
+import { WakeWordMatcher } from "./wake-word";
+import type {
+  WakeCandidate,
+  WakeWordMatch,
+  WakeWordOptions,
+} from "./wake-word";
+
+export { AudioRecorder };
 
 export enum VoiceAssistantState {
   LISTENING_FOR_WAKE_WORD = "LISTENING_FOR_WAKE_WORD",
   ACTIVATING = "ACTIVATING",
   RECORDING_USER_SPEECH = "RECORDING_USER_SPEECH",
+  AWAITING_FOLLOW_UP = "AWAITING_FOLLOW_UP",
   PROCESSING_USER_SPEECH = "PROCESSING_USER_SPEECH",
   MUTED = "MUTED",
   SPEAKING = "SPEAKING",
@@ -14,140 +26,393 @@ export interface StateChangeEvent {
   type: "statechange";
   state: VoiceAssistantState;
   timestamp: number;
+  /** Id of the turn the event belongs to, see VoiceClient.turn. */
+  turn: number;
 }
 export interface TranscriptEvent {
   type: "transcript";
   transcript: string;
   isFinal: boolean;
   timestamp: number;
+  turn: number;
+}
+/**
+ * A wake phrase was heard or nearly heard, see WakeWordMatch. Rejected
+ * matches are reported too, for tuning sensitivity and negative phrases.
+ */
+export interface WakeWordEvent extends Omit<WakeWordMatch, "key"> {
+  type: "wakeword";
+  wakePhrase: string;
+  timestamp: number;
+  turn: number;
 }
 export interface CommandEvent {
   type: "command";
   audioUrl: string | null;
   extension: string | undefined;
+  /** Key of the wake phrase that started this conversation. */
+  wakePhrase: string;
+  /**
+   * What browser speech recognition heard while recording, without the wake
+   * phrase. Empty if it heard nothing.
+   */
+  transcript: string;
+  /**
+   * Set when the transcript matched VoiceClient.matchIntent: the command is
+   * meant to be handled locally, without the model.
+   */
+  intent?: IntentMatch;
+  /** Text from submitText() rather than speech; nothing was recorded. */
+  typed?: boolean;
+  /** Aborted when the turn is cancelled: mute, a new activation or cancelTurn(). */
+  signal: AbortSignal;
   timestamp: number;
+  turn: number;
 }
 export interface SpeakStartEvent {
   type: "speakstart";
   text: string;
+  /** Language the text was taken to be in, if known. */
+  lang?: string;
   timestamp: number;
+  turn: number;
+}
+/** The backend started playing the utterance announced by speakstart. */
+export interface AudioStartEvent {
+  type: "audiostart";
+  timestamp: number;
+  turn: number;
 }
 export interface SpeakEndEvent {
   type: "speakend";
   timestamp: number;
+  turn: number;
+}
+/** The whole response has been spoken, or was cut short. */
+export interface ResponseEndEvent {
+  type: "responseend";
+  /** Cleared, skipped past by a barge-in, or muted before the end. */
+  interrupted: boolean;
+  timestamp: number;
+  turn: number;
+}
+export interface InterruptedEvent {
+  type: "interrupted";
+  /** "wakeword" resumes recording, "stopword" returns to idle. */
+  reason: "wakeword" | "stopword";
+  transcript: string;
+  timestamp: number;
+  turn: number;
+}
+export interface MicStateEvent {
+  type: "micstatechange";
+  state: MicState;
+  timestamp: number;
+  turn: number;
 }
 export interface ErrorEvent {
   type: "error";
   message: string;
   error?: Error;
   timestamp: number;
+  turn: number;
 }
 export type VoiceAssistantEvent =
   | StateChangeEvent
   | TranscriptEvent
+  | WakeWordEvent
   | CommandEvent
   | SpeakStartEvent
+  | AudioStartEvent
   | SpeakEndEvent
+  | ResponseEndEvent
+  | InterruptedEvent
+  | MicStateEvent
   | ErrorEvent;
 
 export type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K>
   : never;
 
-export class AudioRecorder {
-  mediaRecorder: emr.IMediaRecorder;
-  audioChunks: Blob[];
+/**
+ * Subset of the Web Speech API SpeechRecognition that VoiceClient drives.
+ * Handlers receive the browser's event objects (or look-alikes from fakes).
+ */
+export interface SpeechRecognitionBackend {
+  continuous: boolean;
+  interimResults: boolean;
+  /** Alternatives per result; the wake phrase is looked for in each. */
+  maxAlternatives?: number;
+  /** BCP 47 tag; the browser's language if empty. */
+  lang?: string;
+  onresult: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onspeechstart: ((event: any) => void) | null;
+  onspeechend: ((event: any) => void) | null;
+  onend: ((event: any) => void) | null;
+  start(): void;
+  stop(): void;
+}
 
-  constructor(mediaRecorder: emr.IMediaRecorder, audioChunks: Blob[]) {
-    this.mediaRecorder = mediaRecorder;
-    this.audioChunks = audioChunks;
-  }
+export interface UtteranceBackend {
+  text: string;
+  voice: VoiceInfo | null;
+  rate: number;
+  /** Used by the browser if no voice is set. */
+  lang?: string;
+  /** Once audio is playing; backends that can't tell may leave it out. */
+  onstart?: ((event: any) => void) | null;
+  onend: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+/** The parts of SpeechSynthesisVoice we use to pick a voice. */
+export interface VoiceInfo {
+  name: string;
+  /** "" for a voice that speaks any language. */
+  lang: string;
+  /** The browser's default voice. */
+  default?: boolean;
+}
+
+export interface SpeechSynthesisBackend {
+  createUtterance(): UtteranceBackend;
+  speak(utterance: UtteranceBackend): void;
+  cancel(): void;
+  pause?(): void;
+  resume?(): void;
+  getVoices(): VoiceInfo[];
+  /**
+   * Called as utterances are queued, so a backend that fetches audio can
+   * start early. Nothing is spoken until speak().
+   */
+  prefetch?(
+    text: string,
+    voice: VoiceInfo | null,
+    rate: number,
+    signal?: AbortSignal,
+  ): void;
+}
+
+export interface SpeakOptions {
+  /** Voice name from getVoices(); unknown names fall back to the default. */
+  voice?: string;
+  rate?: number;
+  /** BCP 47 tag of the text; a voice speaking it is used instead. */
+  lang?: string;
+  /**
+   * Guess each utterance's language and pick a voice for it, so answers
+   * mixing languages switch voices. Unclear ones keep the previous
+   * utterance's language, or lang.
+   */
+  detectLanguage?: boolean;
+  /** Usually the CommandEvent's; nothing is spoken once it's aborted. */
+  signal?: AbortSignal;
+}
 
-  static async start(
+export interface RecordingResult {
+  audioUrl: string;
+  extension: string;
+}
+
+export interface Recorder {
+  /** Live capture stream, used for audio-level VAD when available. */
+  stream?: MediaStream;
+  stop(logError: (msg: string) => void): Promise<RecordingResult | null>;
+}
+
+export interface RecorderStartOptions {
+  /** Include this much already-buffered audio before the start. */
+  preRollMs?: number;
+  /** Try to cut the wake phrase out of the pre-roll. */
+  trimWakePhrase?: boolean;
+}
+
+export type MicState = "closed" | "opening" | "open" | "recovering";
+
+/** Input device and getUserMedia processing options; unset means browser default. */
+export interface MicrophoneOptions {
+  deviceId?: string;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  sampleRate?: number;
+}
+
+/**
+ * Starts one recording per utterance. Backends that keep the microphone open
+ * between utterances (needed for pre-roll) implement open/close, which
+ * VoiceClient calls on unmute/mute, and report device trouble through
+ * onstatechange/onerror.
+ */
+export interface RecorderBackend {
+  start(
     log: (msg: string) => void,
     logError: (msg: string) => void,
-  ): Promise<AudioRecorder> {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      const mediaRecorder = new emr.MediaRecorder(stream, {
-        mimeType: "audio/wav",
-      });
-      log(`Using mimeType: ${mediaRecorder.mimeType}`);
-      const audioChunks: Blob[] = [];
+    options?: RecorderStartOptions,
+  ): Promise<Recorder>;
+  open?(
+    log: (msg: string) => void,
+    logError: (msg: string) => void,
+  ): Promise<void>;
+  close?(): void;
+  configure?(microphone: MicrophoneOptions): Promise<void>;
+  analyser?: AnalyserNode;
+  onstatechange?: ((state: MicState) => void) | null;
+  onerror?: ((message: string, error?: Error) => void) | null;
+}
 
-      mediaRecorder.ondataavailable = (event) => {
-        audioChunks.push(event.data);
-      };
+/**
+ * How end of speech is detected: "stt" waits for recognition results to stop
+ * arriving, "vad" listens to the audio level, "both" takes whichever is first.
+ */
+export type EndpointingMode = "stt" | "vad" | "both";
 
-      mediaRecorder.start();
+export interface EndpointingOptions {
+  mode?: EndpointingMode;
+  /** STT: silence after the last result once speech was heard. */
+  endOfSpeechTimeoutMs?: number;
+  /** STT: silence after the last result while nothing was said yet. */
+  noSpeechTimeoutMs?: number;
+  /** Give up recording if no speech starts at all. */
+  noSpeechAfterWakeWordTimeoutMs?: number;
+  /** Recording ends after this long whatever the endpointing says. */
+  maxUtteranceMs?: number;
+  vad?: VadOptions;
+}
 
-      return new AudioRecorder(mediaRecorder, audioChunks);
-    } catch (err) {
-      logError(`Could not start audio recording: ${err}`);
-      throw new Error("Could not get user media: " + err);
-    }
-  }
+export interface SpeechBackends {
+  createRecognition: () => SpeechRecognitionBackend;
+  synthesis: SpeechSynthesisBackend;
+  recorder: RecorderBackend;
+}
 
-  stop(logError: (msg: string) => void): Promise<{ audioUrl: string; extension: string } | null> {
-    return new Promise((resolve, reject) => {
-      this.mediaRecorder.onstop = () => {
-        if (this.audioChunks.length === 0) {
-          logError("No audio chunks recorded. Cannot create audio blob.");
-          resolve(null);
-          return;
-        }
-        try {
-          const mimeType = this.mediaRecorder.mimeType;
-          const audioBlob = new Blob(this.audioChunks, { type: mimeType });
-          const audioUrl = URL.createObjectURL(audioBlob);
-          const extension = (mimeType.split(";")[0].split("/")[1]) || "bin";
-          resolve({ audioUrl, extension });
-        } catch (error) {
-          logError(`Error processing audio: ${error}`);
-          reject("Failed to process recorded audio.");
-        }
-      };
+export const browserSpeechSynthesis: SpeechSynthesisBackend = {
+  createUtterance: () => new SpeechSynthesisUtterance(),
+  speak: (utterance) =>
+    window.speechSynthesis.speak(utterance as SpeechSynthesisUtterance),
+  cancel: () => window.speechSynthesis.cancel(),
+  pause: () => window.speechSynthesis.pause(),
+  resume: () => window.speechSynthesis.resume(),
+  getVoices: () => window.speechSynthesis.getVoices(),
+};
 
-      this.mediaRecorder.stop();
-    });
-  }
+interface QueuedSpeech {
+  text: string;
+  options: SpeakOptions;
+  lang: string | undefined;
 }
 
+/** Key of the wakePhraseRegex passed to VoiceClient.init(). */
+export const DEFAULT_WAKE_PHRASE = "default";
+
 export class VoiceClient {
   #state: VoiceAssistantState;
-  #wakePhraseRegex: RegExp;
-  #recognition: any;
-  #audioRecorder: AudioRecorder | undefined;
+  #wakePhrases: Map<string, RegExp>;
+  #wakeWord: WakeWordMatcher;
+  #activeWakePhrase = DEFAULT_WAKE_PHRASE;
+  #stopPhraseRegex: RegExp;
+  #bargeIn: boolean;
+  #echoCancelledStream: MediaStream | undefined;
+  #recognition: SpeechRecognitionBackend;
+  #synthesis: SpeechSynthesisBackend;
+  #recorder: RecorderBackend;
+  #audioRecorder: Recorder | undefined;
+  #vad: VoiceActivityDetector | undefined;
+  /** Carried over between utterances so each VAD starts out knowing the room. */
+  #noiseFloorDb: number | undefined;
+  #endpointing: Required<Omit<EndpointingOptions, "vad">> & {
+    vad: VadOptions;
+  };
   #endOfSpeechTimeout: any | undefined;
   #noSpeechAfterWakeWordTimeout: any | undefined;
+  #maxUtteranceTimeout: any | undefined;
+  #followUpTimeout: any | undefined;
+  #followUpWindowMs: number;
+  #preRollMs: number;
   #finalTranscriptSinceRecording: string;
-  #utterance: SpeechSynthesisUtterance;
+  /** Latest interim result while recording, not yet part of the above. */
+  #interimTranscriptSinceRecording = "";
+  /** Lowest confidence of those final results; browsers may report 0. */
+  #transcriptConfidence = 1;
+  #utterance: UtteranceBackend;
+  #speechQueue: QueuedSpeech[] = [];
+  #currentSpeech: QueuedSpeech | undefined;
+  /** Language of the last utterance queued in this response. */
+  #responseLang: string | undefined;
+  /** From the first queued utterance until the response ends. */
+  #responseActive = false;
+  /** More utterances may still be queued for this response. */
+  #responseOpen = false;
+  #responseWaiters: ((completed: boolean) => void)[] = [];
+  #speechPaused = false;
+  #turn = 0;
+  #turnController = new AbortController();
   #log: (msg: string) => void;
   #logError: (msg: string) => void;
 
+  /** Voice and rate used when speak() isn't given any. */
+  speechDefaults: SpeakOptions = {};
+  /**
+   * Tried on the transcript whenever a final result arrives while recording.
+   * A match ends the recording straight away and is passed on as
+   * CommandEvent.intent, so the app can answer without the model.
+   */
+  matchIntent: ((transcript: string) => IntentMatch | undefined) | undefined;
+  /** Intents aren't matched below this recognition confidence. */
+  intentConfidence = 0.5;
+  #disposed = false;
+
   #eventQueue: VoiceAssistantEvent[] = [];
   #eventResolver: ((value?: void) => void) | null = null;
 
   constructor(
-    wakePhraseRegex: RegExp,
-    SpeechRecognition: any,
+    wakePhrases: Map<string, RegExp>,
+    stopPhraseRegex: RegExp,
+    bargeIn: boolean,
+    backends: SpeechBackends,
     initialState: VoiceAssistantState,
+    followUpWindowMs: number,
+    preRollMs: number,
+    endpointing: EndpointingOptions,
+    wakeWord: WakeWordOptions,
     log: (msg: string) => void,
     logError: (msg: string) => void,
   ) {
-    this.#wakePhraseRegex = wakePhraseRegex;
+    this.#endpointing = {
+      mode: "stt",
+      endOfSpeechTimeoutMs: 1700,
+      noSpeechTimeoutMs: 5000,
+      noSpeechAfterWakeWordTimeoutMs: 15000,
+      maxUtteranceMs: 30000,
+      vad: {},
+      ...endpointing,
+    };
+    this.#wakePhrases = wakePhrases;
+    this.#wakeWord = new WakeWordMatcher(wakePhrases, wakeWord);
+    this.#stopPhraseRegex = stopPhraseRegex;
+    this.#bargeIn = bargeIn;
+    this.#followUpWindowMs = followUpWindowMs;
+    this.#preRollMs = preRollMs;
     this.#state = initialState;
     this.#finalTranscriptSinceRecording = "";
-    this.#utterance = new SpeechSynthesisUtterance();
+    this.#synthesis = backends.synthesis;
+    this.#recorder = backends.recorder;
+    this.#recorder.onstatechange = (state) =>
+      this.#emit({ type: "micstatechange", state });
+    this.#recorder.onerror = (message, error) =>
+      this.#emit({ type: "error", message, error });
+    this.#utterance = this.#synthesis.createUtterance();
     this.#audioRecorder = undefined;
     this.#endOfSpeechTimeout = undefined;
     this.#noSpeechAfterWakeWordTimeout = undefined;
+    this.#followUpTimeout = undefined;
     this.#log = log;
     this.#logError = logError;
 
-    this.#recognition = new SpeechRecognition();
+    this.#recognition = backends.createRecognition();
     this.#recognition.continuous = true;
     this.#recognition.interimResults = true;
+    this.#recognition.maxAlternatives = 3;
 
     this.#recognition.onresult = this.#onResult.bind(this);
     this.#recognition.onerror = this.#onError.bind(this);
@@ -165,30 +430,39 @@ export class VoiceClient {
       this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
       this.#log(`Unmuted.`);
       this.#recognition.start();
+      this.#openRecorder();
     } else {
       this.#log(`Muting.`);
       this.#recognition.stop();
-      globalThis.speechSynthesis.cancel();
+      this.#releaseEchoCancelledMic();
+      this.#recorder.close?.();
       if (
         this.state === VoiceAssistantState.RECORDING_USER_SPEECH ||
-        this.state === VoiceAssistantState.ACTIVATING
+        this.state === VoiceAssistantState.ACTIVATING ||
+        this.state === VoiceAssistantState.AWAITING_FOLLOW_UP
       ) {
         this.#audioRecorder?.stop(this.#logError).then((result) => {
           if (result?.audioUrl) URL.revokeObjectURL(result.audioUrl);
         });
         this.#audioRecorder = undefined;
+        this.#stopVad();
         clearTimeout(this.#endOfSpeechTimeout);
         this.#endOfSpeechTimeout = undefined;
         clearTimeout(this.#noSpeechAfterWakeWordTimeout);
         this.#noSpeechAfterWakeWordTimeout = undefined;
+        clearTimeout(this.#maxUtteranceTimeout);
+        this.#maxUtteranceTimeout = undefined;
+        clearTimeout(this.#followUpTimeout);
+        this.#followUpTimeout = undefined;
       }
       this.state = VoiceAssistantState.MUTED;
+      this.cancelTurn();
     }
   }
 
-  #emit(event: DistributiveOmit<VoiceAssistantEvent, "timestamp">) {
+  #emit(event: DistributiveOmit<VoiceAssistantEvent, "timestamp" | "turn">) {
     this.#eventQueue.push(
-      { ...event, timestamp: Date.now() } as VoiceAssistantEvent,
+      { ...event, timestamp: Date.now(), turn: this.#turn } as VoiceAssistantEvent,
     );
     if (this.#eventResolver) {
       this.#eventResolver();
@@ -202,11 +476,13 @@ export class VoiceClient {
       state: this.#state,
     });
 
-    while (true) {
+    while (!this.#disposed) {
       while (this.#eventQueue.length > 0) {
         const event = this.#eventQueue.shift();
         if (event) yield event;
       }
+      // dispose() may have run while the last event was being handled.
+      if (this.#disposed) break;
       await new Promise<void>((resolve) => {
         this.#eventResolver = resolve;
       });
@@ -225,18 +501,78 @@ export class VoiceClient {
 
   static async init(
     {
-      wakePhraseRegex = /(?:ok|okay)[^a-z]+metallica/i,
+      wakePhraseRegex,
+      wakePhrases = {},
+      stopPhraseRegex = /\b(?:stop|cancel|never ?mind|be quiet|shut up)\b/i,
+      bargeIn = false,
       initialState = VoiceAssistantState.LISTENING_FOR_WAKE_WORD,
+      followUpWindowMs = 8000,
+      preRollMs = 2000,
+      endpointing = {},
+      wakeWord = {},
+      lang,
       log = console.log,
       logError = console.error,
+      backends,
+      microphone,
     }: {
       wakePhraseRegex?: RegExp;
+      /**
+       * Wake phrases by key, e.g. one per persona, tried in order before
+       * wakePhraseRegex. The built-in phrase is only used if neither is set.
+       */
+      wakePhrases?: Record<string, RegExp>;
+      /** Interrupts speech and returns to idle when barge-in is enabled. */
+      stopPhraseRegex?: RegExp;
+      /** Keep listening while speaking so the user can interrupt. */
+      bargeIn?: boolean;
       initialState?: VoiceAssistantState;
+      /** How long to keep recording after a reply, 0 disables follow-ups. */
+      followUpWindowMs?: number;
+      /** Audio kept from before the wake phrase matched, if the recorder buffers. */
+      preRollMs?: number;
+      endpointing?: EndpointingOptions;
+      /** Sensitivity, cooldown and negative phrases of wake phrase matching. */
+      wakeWord?: WakeWordOptions;
+      /** BCP 47 tag speech is recognized in; the browser's language if unset. */
+      lang?: string;
       log?: (msg: string) => void;
       logError?: (msg: string) => void;
+      /** Replace the browser speech APIs, e.g. with fakes in tests. */
+      backends?: SpeechBackends;
+      /** Input device and constraints for the default browser recorder. */
+      microphone?: MicrophoneOptions;
     } = {},
   ): Promise<VoiceClient> {
-    await emr.register(await wavEncoder.connect());
+    const phrases = new Map(Object.entries(wakePhrases));
+    if (wakePhraseRegex || !phrases.size) {
+      phrases.set(
+        DEFAULT_WAKE_PHRASE,
+        wakePhraseRegex ?? /(?:ok|okay)[^a-z]+metallica/i,
+      );
+    }
+    const assistant = new VoiceClient(
+      phrases,
+      stopPhraseRegex,
+      bargeIn,
+      backends ?? await VoiceClient.browserBackends(microphone),
+      initialState,
+      followUpWindowMs,
+      preRollMs,
+      endpointing,
+      wakeWord,
+      log,
+      logError,
+    );
+    if (lang) assistant.#recognition.lang = lang;
+    assistant.#recognition.start();
+    if (!assistant.isMuted) assistant.#openRecorder();
+    return assistant;
+  }
+
+  static async browserBackends(
+    microphone: MicrophoneOptions = {},
+  ): Promise<SpeechBackends> {
     const SpeechRecognition = (window as any).SpeechRecognition ||
       (window as any).webkitSpeechRecognition;
     const missingFeatures = [];
@@ -245,8 +581,8 @@ export class VoiceClient {
         "SpeechRecognition (window.SpeechRecognition or window.webkitSpeechRecognition)",
       );
     }
-    if (!("MediaRecorder" in window)) {
-      missingFeatures.push("MediaRecorder");
+    if (!("AudioWorkletNode" in window)) {
+      missingFeatures.push("AudioWorkletNode");
     }
     if (!("speechSynthesis" in window)) {
       missingFeatures.push("SpeechSynthesis");
@@ -259,63 +595,608 @@ export class VoiceClient {
         }.`,
       );
     }
-    const assistant = new VoiceClient(
-      wakePhraseRegex,
-      SpeechRecognition,
-      initialState,
-      log,
-      logError,
-    );
-    assistant.#recognition.start();
-    return assistant;
+    return {
+      createRecognition: () => new SpeechRecognition(),
+      synthesis: browserSpeechSynthesis,
+      recorder: new AudioRecorder({ microphone }),
+    };
+  }
+
+  /** Analyser on the live microphone input, if the recorder provides one. */
+  get inputAnalyser(): AnalyserNode | undefined {
+    return this.#recorder.analyser;
   }
 
-  speak(text: string): Promise<void> {
-    if (this.state === VoiceAssistantState.MUTED) return Promise.resolve();
+  async setMicrophone(microphone: MicrophoneOptions): Promise<void> {
+    if (!this.#recorder.configure) {
+      this.#log("Recorder does not support microphone settings.");
+      return;
+    }
+    await this.#recorder.configure(microphone);
+    // Another device or processing means another noise level.
+    this.#noiseFloorDb = undefined;
+  }
 
-    this.state = VoiceAssistantState.SPEAKING;
+  #openRecorder() {
+    // Failures surface again, with a log, when recording actually starts.
+    this.#recorder.open?.(this.#log, this.#logError).catch(() => {});
+  }
+
+  get voices(): VoiceInfo[] {
+    return this.#synthesis.getVoices();
+  }
+
+  /**
+   * Stops listening and speaking, releases the microphone and ends the
+   * events() stream. Used to rebuild the client with new settings.
+   */
+  dispose() {
+    if (this.#disposed) return;
+    this.#log("Shutting down voice client.");
+    this.#disposed = true;
+    this.#recognition.onend = null;
+    this.#recognition.onresult = null;
     this.#recognition.stop();
+    this.cancelTurn();
+    clearTimeout(this.#endOfSpeechTimeout);
+    clearTimeout(this.#noSpeechAfterWakeWordTimeout);
+    clearTimeout(this.#maxUtteranceTimeout);
+    clearTimeout(this.#followUpTimeout);
+    this.#stopVad();
+    this.#audioRecorder?.stop(this.#logError).then((result) => {
+      if (result?.audioUrl) URL.revokeObjectURL(result.audioUrl);
+    });
+    this.#audioRecorder = undefined;
+    this.#releaseEchoCancelledMic();
+    this.#recorder.close?.();
+    this.#eventResolver?.();
+    this.#eventResolver = null;
+  }
 
-    this.#emit({ type: "speakstart", text });
-    return new Promise<void>((resolve, reject) => {
-      this.#utterance.text = text;
-      this.#utterance.onend = () => {
-        this.#emit({ type: "speakend" });
-        if (this.state !== VoiceAssistantState.MUTED) {
-          this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
-        }
-        this.#recognition.start();
-        resolve();
-      };
-      this.#utterance.onerror = (event) => {
+  /**
+   * Speaks one utterance as a response of its own. Resolves once it has been
+   * spoken, skipped or interrupted. While another response is still open,
+   * e.g. a streaming reply, the text joins it and this resolves when that
+   * response ends; only its owner's finishResponse() closes it.
+   */
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    const joined = this.#responseOpen;
+    if (!this.queueSpeech(text, options)) return;
+    if (joined) await this.#responseEnd();
+    else await this.finishResponse();
+  }
+
+  /**
+   * Adds an utterance to the current response, starting one if needed. The
+   * client stays SPEAKING until finishResponse() was called and the queue
+   * has drained. Returns false if speaking isn't allowed right now.
+   */
+  queueSpeech(text: string, options: SpeakOptions = {}): boolean {
+    if (this.#disposed || options.signal?.aborted) return false;
+    // Never talk over the user, e.g. after they barged in.
+    if (
+      this.state === VoiceAssistantState.MUTED ||
+      this.state === VoiceAssistantState.ACTIVATING ||
+      this.state === VoiceAssistantState.RECORDING_USER_SPEECH
+    ) return false;
+    // Speaking ends the follow-up window, or its recording would leak.
+    if (this.state === VoiceAssistantState.AWAITING_FOLLOW_UP) {
+      this.#cancelFollowUp();
+    }
+
+    if (!this.#responseActive) {
+      this.#responseActive = true;
+      this.state = VoiceAssistantState.SPEAKING;
+      if (this.#bargeIn) this.#holdEchoCancelledMic();
+      else this.#recognition.stop();
+    }
+    this.#responseOpen = true;
+    const lang = this.#languageOf(text, options);
+    this.#speechQueue.push({ text, options, lang });
+    if (this.#synthesis.prefetch) {
+      const { voice, rate } = this.#voiceFor(options, lang);
+      this.#synthesis.prefetch(text, voice, rate, options.signal);
+    }
+    this.#speakNext();
+    return true;
+  }
+
+  /**
+   * Marks the end of the current response. Resolves with true once
+   * everything queued has been spoken, or false if the response was cleared
+   * or interrupted.
+   */
+  finishResponse(): Promise<boolean> {
+    this.#responseOpen = false;
+    if (!this.#responseActive) return Promise.resolve(true);
+    const done = this.#responseEnd();
+    if (!this.#currentSpeech && !this.#speechQueue.length) {
+      this.#endResponse(false);
+    }
+    return done;
+  }
+
+  /** Resolves like finishResponse(), without closing the response. */
+  #responseEnd(): Promise<boolean> {
+    return new Promise((resolve) => this.#responseWaiters.push(resolve));
+  }
+
+  get isSpeechPaused(): boolean {
+    return this.#speechPaused;
+  }
+
+  pauseSpeech() {
+    if (!this.#responseActive || this.#speechPaused) return;
+    this.#speechPaused = true;
+    this.#synthesis.pause?.();
+  }
+
+  resumeSpeech() {
+    if (!this.#speechPaused) return;
+    this.#speechPaused = false;
+    this.#synthesis.resume?.();
+    this.#speakNext();
+  }
+
+  /** Stops the current utterance and goes on with the next one. */
+  skipSpeech() {
+    if (!this.#currentSpeech) return;
+    this.#synthesis.cancel();
+    // Chrome stays paused after cancel(); the next utterance waits on us.
+    if (this.#speechPaused) this.#synthesis.resume?.();
+  }
+
+  /** Drops everything queued and stops speaking, ending the response. */
+  clearSpeech() {
+    if (!this.#responseActive) return;
+    const speaking = this.#currentSpeech;
+    this.#currentSpeech = undefined;
+    this.#endResponse(true);
+    if (speaking) this.#synthesis.cancel();
+  }
+
+  #speakNext() {
+    if (this.#currentSpeech || this.#speechPaused) return;
+    let next = this.#speechQueue.shift();
+    // Left over from a cancelled turn.
+    while (next?.options.signal?.aborted) next = this.#speechQueue.shift();
+    if (!next) {
+      if (!this.#responseOpen) this.#endResponse(false);
+      return;
+    }
+    this.#currentSpeech = next;
+
+    const { voice, rate } = this.#voiceFor(next.options, next.lang);
+    const utterance = this.#synthesis.createUtterance();
+    utterance.text = next.text;
+    utterance.voice = voice;
+    utterance.rate = rate;
+    if (next.lang) utterance.lang = next.lang;
+    let ended = false;
+    const finish = () => {
+      if (ended) return;
+      ended = true;
+      this.#emit({ type: "speakend" });
+      // Cleared, e.g. by a barge-in or mute: the response already ended.
+      if (this.#currentSpeech !== next) return;
+      this.#currentSpeech = undefined;
+      if (this.state === VoiceAssistantState.SPEAKING) this.#speakNext();
+      else this.#endResponse(true);
+    };
+    utterance.onstart = () => this.#emit({ type: "audiostart" });
+    utterance.onend = finish;
+    utterance.onerror = (event) => {
+      // speechSynthesis.cancel() from skip, mute or barge-in is not a failure.
+      if (event.error !== "interrupted" && event.error !== "canceled") {
         this.#emit({
           type: "error",
           message: `TTS Error: ${event.error}`,
           error: new Error(`TTS Error: ${event.error}`, { cause: event }),
         });
-        if (this.state !== VoiceAssistantState.MUTED) {
-          this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
-        }
-        this.#recognition.start();
-        reject(event.error);
-      };
-      window.speechSynthesis.speak(this.#utterance);
+      }
+      finish();
+    };
+    this.#utterance = utterance;
+    this.#emit({ type: "speakstart", text: next.text, lang: next.lang });
+    this.#synthesis.speak(utterance);
+  }
+
+  #languageOf(text: string, options: SpeakOptions): string | undefined {
+    const { lang, detectLanguage: detect } = {
+      ...this.speechDefaults,
+      ...options,
+    };
+    if (!detect) return lang;
+    const detected = detectLanguage(text);
+    if (!detected) return this.#responseLang ?? lang;
+    // Keeps the region, e.g. "pt-BR" rather than "pt".
+    this.#responseLang = lang && sameLanguage(lang, detected) ? lang : detected;
+    return this.#responseLang;
+  }
+
+  /**
+   * The chosen voice, unless it doesn't speak the text's language. Voices
+   * without a lang, like the speech API's, speak any language and are kept.
+   */
+  #voiceFor(options: SpeakOptions, lang: string | undefined) {
+    const { voice, rate = 1 } = { ...this.speechDefaults, ...options };
+    const chosen = voice
+      ? this.voices.find((v) => v.name === voice) ?? null
+      : null;
+    if (
+      lang && chosen?.lang !== "" && !(chosen && sameLanguage(chosen.lang, lang))
+    ) {
+      const match = voiceForLanguage(this.voices, lang);
+      if (match) return { voice: match, rate };
+    }
+    return { voice: chosen, rate };
+  }
+
+  #endResponse(interrupted: boolean) {
+    if (!this.#responseActive) return;
+    this.#responseActive = false;
+    this.#responseOpen = false;
+    this.#speechQueue = [];
+    this.#responseLang = undefined;
+    this.#speechPaused = false;
+    this.#releaseEchoCancelledMic();
+    if (this.state === VoiceAssistantState.SPEAKING) {
+      this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+    }
+    if (
+      !this.#bargeIn && !this.#disposed &&
+      this.state !== VoiceAssistantState.MUTED
+    ) {
+      this.#recognition.start();
+    }
+    this.#emit({ type: "responseend", interrupted });
+    const waiters = this.#responseWaiters;
+    this.#responseWaiters = [];
+    waiters.forEach((resolve) => resolve(!interrupted));
+  }
+
+  /**
+   * Holding an echo-cancelled capture stream open makes the browser apply
+   * AEC to the shared microphone, so recognition running during SPEAKING
+   * hears the user rather than our own TTS. Held for one response.
+   */
+  async #holdEchoCancelledMic(): Promise<void> {
+    if (this.#echoCancelledStream) return;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+      // The response may have ended while we waited for the stream.
+      if (!this.#responseActive || this.#echoCancelledStream) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      this.#echoCancelledStream = stream;
+    } catch (err) {
+      this.#logError(`Could not open echo-cancelled microphone: ${err}`);
+    }
+  }
+
+  #releaseEchoCancelledMic() {
+    this.#echoCancelledStream?.getTracks().forEach((track) => track.stop());
+    this.#echoCancelledStream = undefined;
+  }
+
+  /**
+   * Id of the current turn: it goes up each time the wake phrase or a
+   * follow-up starts a new command. 0 before the first one.
+   */
+  get turn(): number {
+    return this.#turn;
+  }
+
+  /**
+   * Aborts the current turn's signal and stops what it's saying, so a reply
+   * still streaming in is dropped. A turn still being processed goes back to
+   * listening for the wake phrase.
+   */
+  cancelTurn() {
+    if (!this.#turnController.signal.aborted) {
+      this.#log(`Cancelling turn ${this.#turn}.`);
+      this.#turnController.abort();
+    }
+    this.clearSpeech();
+    if (
+      !this.#disposed &&
+      this.state === VoiceAssistantState.PROCESSING_USER_SPEECH
+    ) this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+  }
+
+  #startTurn() {
+    this.#turnController.abort();
+    this.#turnController = new AbortController();
+    this.#turn++;
+  }
+
+  /**
+   * Key of the wake phrase heard in any of the candidates, if it's accepted.
+   * Reports the best match, accepted or not, as a wakeword event.
+   */
+  #matchWakePhrase(candidates: WakeCandidate[]): string | undefined {
+    const match = this.#wakeWord.match(candidates);
+    if (!match) return;
+    const { key, ...rest } = match;
+    this.#emit({ type: "wakeword", wakePhrase: key, ...rest });
+    if (!match.accepted) {
+      this.#log(
+        `Ignoring wake phrase "${match.text}" (${match.reason}, score ${
+          match.score.toFixed(2)
+        }).`,
+      );
+      return;
+    }
+    return key;
+  }
+
+  /**
+   * The combined transcript of the new results, then every alternative of
+   * each result on its own.
+   */
+  #wakeCandidates(event: any, transcript: string, confidence: number) {
+    const candidates: WakeCandidate[] = [{ transcript, confidence }];
+    for (let i = event.resultIndex; i < event.results.length; ++i) {
+      const result = event.results[i];
+      for (let j = 0; j < result.length; j++) {
+        const { transcript, confidence } = result[j];
+        candidates.push({ transcript, confidence });
+      }
+    }
+    return candidates;
+  }
+
+  async #bargeInto(
+    transcript: string,
+    candidates: WakeCandidate[],
+  ): Promise<void> {
+    const spoken = this.#utterance.text;
+    const wakePhrase = this.#matchWakePhrase(candidates);
+    let reason: "wakeword" | "stopword";
+    if (wakePhrase) reason = "wakeword";
+    else if (this.#stopPhraseRegex.test(transcript)) reason = "stopword";
+    else return;
+
+    // Recognition can pick up our own voice if AEC is imperfect.
+    const regex = wakePhrase
+      ? this.#wakePhrases.get(wakePhrase)!
+      : this.#stopPhraseRegex;
+    if (regex.test(spoken)) {
+      this.#log(`Ignoring possible echo of "${spoken}".`);
+      return;
+    }
+
+    this.#log(`Barge-in (${reason}): ${transcript}`);
+    this.#emit({ type: "interrupted", reason, transcript });
+    this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+    this.cancelTurn();
+    if (wakePhrase) await this.#activate(wakePhrase);
+  }
+
+  /**
+   * Key of the wake phrase that started the current conversation; follow-ups
+   * keep it. Set before the ACTIVATING state change is emitted.
+   */
+  get activeWakePhrase(): string {
+    return this.#activeWakePhrase;
+  }
+
+  /**
+   * Starts recording a command as if the wake phrase had been heard. Returns
+   * false unless the client was listening for it.
+   */
+  async activate(wakePhrase = DEFAULT_WAKE_PHRASE): Promise<boolean> {
+    this.#checkWakePhrase(wakePhrase);
+    if (this.state !== VoiceAssistantState.LISTENING_FOR_WAKE_WORD) return false;
+    this.#log(`Activating without the wake phrase (${wakePhrase}).`);
+    await this.#activate(wakePhrase, false);
+    return true;
+  }
+
+  /**
+   * Answers text as if it had been said after the wake phrase, with a typed
+   * CommandEvent and no recording. Returns false unless the client was
+   * listening for the wake phrase.
+   */
+  submitText(text: string, wakePhrase = DEFAULT_WAKE_PHRASE): boolean {
+    this.#checkWakePhrase(wakePhrase);
+    if (this.state !== VoiceAssistantState.LISTENING_FOR_WAKE_WORD) return false;
+    this.#activeWakePhrase = wakePhrase;
+    this.#startTurn();
+    this.state = VoiceAssistantState.PROCESSING_USER_SPEECH;
+    this.#emit({
+      type: "command",
+      audioUrl: null,
+      extension: undefined,
+      wakePhrase,
+      transcript: text,
+      intent: this.matchIntent?.(text),
+      typed: true,
+      signal: this.#turnController.signal,
     });
+    return true;
   }
 
-  async #activate(): Promise<void> {
+  #checkWakePhrase(wakePhrase: string) {
+    if (!this.#wakePhrases.has(wakePhrase)) {
+      throw new Error(`Unknown wake phrase "${wakePhrase}".`);
+    }
+  }
+
+  /** Without the pre-roll unless the wake phrase was actually spoken. */
+  async #activate(wakePhrase: string, spoken = true): Promise<void> {
     if (this.state !== VoiceAssistantState.LISTENING_FOR_WAKE_WORD) return;
 
+    this.#activeWakePhrase = wakePhrase;
+    this.#startTurn();
     this.state = VoiceAssistantState.ACTIVATING;
 
     this.#finalTranscriptSinceRecording = "";
-    this.#audioRecorder = await AudioRecorder.start(this.#log, this.#logError);
+    this.#interimTranscriptSinceRecording = "";
+    this.#transcriptConfidence = 1;
+    const turn = this.#turn;
+    let recorder: Recorder;
+    try {
+      recorder = await this.#recorder.start(
+        this.#log,
+        this.#logError,
+        { preRollMs: spoken ? this.#preRollMs : 0, trimWakePhrase: spoken },
+      );
+    } catch (err: any) {
+      // E.g. the mic was unplugged or permission revoked.
+      this.#emit({
+        type: "error",
+        message: `Could not record a command: ${err.message ?? err}`,
+        error: err instanceof Error ? err : new Error(String(err)),
+      });
+      if (
+        this.#turn === turn && this.state === VoiceAssistantState.ACTIVATING
+      ) this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+      return;
+    }
+    // Muted, disposed or activated again while the mic was opening.
+    if (
+      this.#disposed || this.#turn !== turn ||
+      this.state !== VoiceAssistantState.ACTIVATING
+    ) {
+      recorder.stop(this.#logError).then((result) => {
+        if (result?.audioUrl) URL.revokeObjectURL(result.audioUrl);
+      });
+      return;
+    }
+    this.#audioRecorder = recorder;
     this.state = VoiceAssistantState.RECORDING_USER_SPEECH;
+    this.#startVad();
+    this.#limitUtterance();
 
+    const { noSpeechAfterWakeWordTimeoutMs } = this.#endpointing;
     this.#noSpeechAfterWakeWordTimeout = setTimeout(() => {
-      this.#log("No speech detected for 15s, cancelling recording.");
+      this.#log(
+        `No speech detected for ${noSpeechAfterWakeWordTimeoutMs}ms, cancelling recording.`,
+      );
+      this.#stopRecording();
+    }, noSpeechAfterWakeWordTimeoutMs);
+  }
+
+  /**
+   * The VAD shares the recorder's analyser when it has one, so it doesn't
+   * open an AudioContext of its own for every utterance.
+   */
+  #startVad() {
+    const input = this.#recorder.analyser ?? this.#audioRecorder?.stream;
+    if (this.#endpointing.mode === "stt" || !input || this.#vad) return;
+    try {
+      this.#vad = new VoiceActivityDetector(input, {
+        ...this.#endpointing.vad,
+        noiseFloorDb: this.#noiseFloorDb ?? this.#endpointing.vad.noiseFloorDb,
+      });
+    } catch (err) {
+      this.#logError(`Could not start voice activity detection: ${err}`);
+      return;
+    }
+    this.#vad.onSpeechStart = () => {
+      this.#log("VAD: speech started.");
+      if (this.state === VoiceAssistantState.AWAITING_FOLLOW_UP) {
+        this.#followUpHeard();
+      }
+      this.#onSpeechStart();
+    };
+    this.#vad.onSpeechEnd = () => {
+      if (this.state !== VoiceAssistantState.RECORDING_USER_SPEECH) return;
+      this.#log("VAD: end of speech.");
       this.#stopRecording();
-    }, 15000);
+    };
+  }
+
+  #stopVad() {
+    if (!this.#vad) return;
+    this.#noiseFloorDb = this.#vad.noiseFloorDb;
+    this.#vad.stop();
+    this.#vad = undefined;
+  }
+
+  /** Ends the recording once it's maxUtteranceMs long, e.g. in steady noise. */
+  #limitUtterance() {
+    const { maxUtteranceMs } = this.#endpointing;
+    clearTimeout(this.#maxUtteranceTimeout);
+    this.#maxUtteranceTimeout = setTimeout(() => {
+      this.#log(`Recording reached ${maxUtteranceMs}ms, ending it.`);
+      this.#stopRecording();
+    }, maxUtteranceMs);
+  }
+
+  /**
+   * Call once the whole reply has been spoken. Records straight away so the
+   * user can follow up without the wake phrase; falls back to wake-word
+   * listening if nothing is said within the follow-up window.
+   */
+  async awaitFollowUp(): Promise<void> {
+    if (
+      this.#followUpWindowMs <= 0 ||
+      this.state !== VoiceAssistantState.LISTENING_FOR_WAKE_WORD
+    ) return;
+
+    this.state = VoiceAssistantState.AWAITING_FOLLOW_UP;
+    this.#finalTranscriptSinceRecording = "";
+    this.#interimTranscriptSinceRecording = "";
+    this.#transcriptConfidence = 1;
+    let recorder: Recorder;
+    try {
+      recorder = await this.#recorder.start(this.#log, this.#logError);
+    } catch (err: any) {
+      // E.g. the mic was unplugged or permission revoked during the reply.
+      this.#emit({
+        type: "error",
+        message: `Could not record a follow-up: ${err.message ?? err}`,
+        error: err instanceof Error ? err : new Error(String(err)),
+      });
+      if (this.state === VoiceAssistantState.AWAITING_FOLLOW_UP) {
+        this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+      }
+      return;
+    }
+    if (this.state !== VoiceAssistantState.AWAITING_FOLLOW_UP) {
+      recorder.stop(this.#logError).then((result) => {
+        if (result?.audioUrl) URL.revokeObjectURL(result.audioUrl);
+      });
+      return;
+    }
+    this.#audioRecorder = recorder;
+    this.#startVad();
+
+    this.#followUpTimeout = setTimeout(() => {
+      this.#log(
+        `No follow-up within ${this.#followUpWindowMs}ms, waiting for wake word.`,
+      );
+      this.#cancelFollowUp();
+    }, this.#followUpWindowMs);
+  }
+
+  async #cancelFollowUp(): Promise<void> {
+    if (this.state !== VoiceAssistantState.AWAITING_FOLLOW_UP) return;
+
+    clearTimeout(this.#followUpTimeout);
+    this.#followUpTimeout = undefined;
+    this.state = VoiceAssistantState.LISTENING_FOR_WAKE_WORD;
+    this.#stopVad();
+
+    // Cleared first, so a recording started meanwhile isn't dropped.
+    const recorder = this.#audioRecorder;
+    this.#audioRecorder = undefined;
+    const result = await recorder?.stop(this.#logError);
+    if (result?.audioUrl) URL.revokeObjectURL(result.audioUrl);
+  }
+
+  #followUpHeard() {
+    this.#log("Heard follow-up speech.");
+    this.#startTurn();
+    clearTimeout(this.#followUpTimeout);
+    this.#followUpTimeout = undefined;
+    this.state = VoiceAssistantState.RECORDING_USER_SPEECH;
+    this.#limitUtterance();
   }
 
   async #stopRecording(): Promise<void> {
@@ -327,6 +1208,9 @@ export class VoiceClient {
     this.#endOfSpeechTimeout = undefined;
     clearTimeout(this.#noSpeechAfterWakeWordTimeout);
     this.#noSpeechAfterWakeWordTimeout = undefined;
+    clearTimeout(this.#maxUtteranceTimeout);
+    this.#maxUtteranceTimeout = undefined;
+    this.#stopVad();
 
     const result = await this.#audioRecorder!.stop(this.#logError);
     this.#audioRecorder = undefined;
@@ -335,16 +1219,42 @@ export class VoiceClient {
       type: "command",
       audioUrl: result?.audioUrl ?? null,
       extension: result?.extension,
+      wakePhrase: this.#activeWakePhrase,
+      transcript: this.#commandTranscript(),
+      intent: this.#localIntent(),
+      signal: this.#turnController.signal,
     });
   }
 
+  #localIntent(): IntentMatch | undefined {
+    if (this.#transcriptConfidence < this.intentConfidence) return;
+    return this.matchIntent?.(this.#commandTranscript());
+  }
+
+  /** The recording's transcript, without a wake phrase at the start. */
+  #commandTranscript(): string {
+    const text = `${this.#finalTranscriptSinceRecording} ${this.#interimTranscriptSinceRecording}`
+      .trim();
+    const match = text.match(this.#wakePhrases.get(this.#activeWakePhrase)!);
+    if (!match || text.slice(0, match.index).trim()) return text;
+    return text.slice(match.index! + match[0].length)
+      .replace(/^[\s,.!?]+/, "");
+  }
+
   async #onResult(event: any): Promise<void> {
     if (this.state === VoiceAssistantState.MUTED) return;
     let interimTranscript = "";
     let newlyFinalizedTranscript = "";
+    let confidence = 1;
+    /** Of all new results, for the wake phrase. */
+    let lowestConfidence = 1;
     for (let i = event.resultIndex; i < event.results.length; ++i) {
+      // 0 means the browser doesn't know.
+      const resultConfidence = event.results[i][0].confidence || 1;
+      lowestConfidence = Math.min(lowestConfidence, resultConfidence);
       if (event.results[i].isFinal) {
         newlyFinalizedTranscript += event.results[i][0].transcript;
+        confidence = Math.min(confidence, resultConfidence);
       } else {
         interimTranscript += event.results[i][0].transcript;
       }
@@ -365,19 +1275,56 @@ export class VoiceClient {
       });
     }
 
-    if (this.state === VoiceAssistantState.LISTENING_FOR_WAKE_WORD) {
-      if (
-        this.#wakePhraseRegex.test(interimTranscript + newlyFinalizedTranscript)
-      ) {
-        await this.#activate();
+    if (
+      this.state === VoiceAssistantState.AWAITING_FOLLOW_UP &&
+      this.#audioRecorder &&
+      (interimTranscript || newlyFinalizedTranscript)
+    ) {
+      this.#followUpHeard();
+    }
+
+    if (this.state === VoiceAssistantState.SPEAKING) {
+      if (this.#bargeIn) {
+        const transcript = interimTranscript + newlyFinalizedTranscript;
+        await this.#bargeInto(
+          transcript,
+          this.#wakeCandidates(event, transcript, lowestConfidence),
+        );
       }
+    } else if (this.state === VoiceAssistantState.LISTENING_FOR_WAKE_WORD) {
+      const wakePhrase = this.#matchWakePhrase(
+        this.#wakeCandidates(
+          event,
+          interimTranscript + newlyFinalizedTranscript,
+          lowestConfidence,
+        ),
+      );
+      if (wakePhrase) await this.#activate(wakePhrase);
     } else if (this.state === VoiceAssistantState.RECORDING_USER_SPEECH) {
       this.#finalTranscriptSinceRecording += newlyFinalizedTranscript;
+      this.#interimTranscriptSinceRecording = interimTranscript;
+      if (newlyFinalizedTranscript) {
+        this.#transcriptConfidence = Math.min(
+          this.#transcriptConfidence,
+          confidence,
+        );
+        const intent = this.#localIntent();
+        if (intent) {
+          this.#log(`Matched intent ${intent.intent}, handling it locally.`);
+          clearTimeout(this.#endOfSpeechTimeout);
+          this.#stopRecording();
+          return;
+        }
+      }
+      // Only the VAD ends recording; maxUtteranceMs is the fallback.
+      if (this.#endpointing.mode === "vad" && this.#vad) return;
 
       const hasSpeech =
         this.#finalTranscriptSinceRecording.length + interimTranscript.length >
           0;
-      const timeout = hasSpeech ? 1700 : 5000;
+      const timeout = hasSpeech
+        ? this.#endpointing.endOfSpeechTimeoutMs
+        : this.#endpointing.noSpeechTimeoutMs;
 
       clearTimeout(this.#endOfSpeechTimeout);
       this.#endOfSpeechTimeout = setTimeout(
@@ -425,10 +1372,8 @@ export class VoiceClient {
   }
 
   #onEnd() {
-    if (
-      this.state === VoiceAssistantState.SPEAKING ||
-      this.state === VoiceAssistantState.MUTED
-    ) return;
+    if (this.state === VoiceAssistantState.MUTED) return;
+    if (this.state === VoiceAssistantState.SPEAKING && !this.#bargeIn) return;
     this.#recognition.start();
   }
 }
@@ -0,0 +1,19 @@
+import { defineConfig } from "vite";
+
+// `pnpm build-lib`: the DOM-free core and the <voice-assistant> element as
+// ES modules for embedding in other pages, next to the demo in dist/.
+export default defineConfig({
+  build: {
+    outDir: "dist/lib",
+    lib: {
+      entry: {
+        core: "src/core.ts",
+        element: "src/voice-assistant-element.ts",
+      },
+      formats: ["es"],
+    },
+    rollupOptions: {
+      external: ["openai", /^openai\//, "lucide", "@breezystack/lamejs"],
+    },
+  },
+});